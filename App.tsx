@@ -1,7 +1,7 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { 
   XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-  Area, ComposedChart, Bar, Line, Legend, BarChart, Cell
+  Area, ComposedChart, Bar, Line, Legend, BarChart, Cell, LineChart, ReferenceLine, TooltipPayloadEntry
 } from 'recharts';
 import { 
   TrendingUp, Download, BrainCircuit, 
@@ -12,11 +12,25 @@ import {
   Calendar, MessageSquare, Play, BarChart3, ShieldCheck, History, UserCircle, FileOutput, ArrowUpRight,
   Settings, Link as LinkIcon, Info, BookOpen, DollarSign, ShieldAlert, Sparkles, Wand2, Loader2, Gauge, Filter
 } from 'lucide-react';
-import { SKUS, CATEGORIES, SAMPLE_DATA, SAMPLE_ATTRIBUTES, SAMPLE_INVENTORY, DEFAULT_HORIZON } from './constants';
-import { DataPoint, FilterState, TimeInterval, ForecastMethodology, ProductAttribute, InventoryLevel, Scenario, AiProvider, AudienceType, OnePagerData } from './types';
-import { calculateForecast, calculateMetrics, cleanAnomalies } from './utils/forecasting';
-import { calculateSupplyChainMetrics, runParetoAnalysis } from './utils/supplyChain';
-import { exportToCSV } from './utils/export';
+import { SKUS, CATEGORIES, SAMPLE_DATA, SAMPLE_ATTRIBUTES, SAMPLE_INVENTORY, DEFAULT_HORIZON, DEFAULT_FILTERS } from './constants';
+import { DataPoint, FilterState, TimeInterval, ForecastMethodology, ProductAttribute, InventoryLevel, Scenario, AiProvider, AudienceType, OnePagerData, BacktestWindow, SelectionMetric, EnsembleWeighting, IntervalMethod, ReconciliationMethod, DriverRecord, DriverScenario, DriverKey, AnomalyDetector, AnomalyReview, FillPolicy, Supersession, DemandClass, ForecastEvent, ForecastPoint, ForecastSnapshot, ForecastOverride, OverrideLayer, OverrideMode, OverrideReason, OverrideAuditEntry } from './types';
+import { ForecastRun, BASE_METHODOLOGIES } from './utils/forecasting';
+import { exportToCSV, exportClassificationCSV } from './utils/export';
+import { parseSalesCSV, parseInventoryCSV, parseAttributesCSV, parseDriversCSV } from './utils/csv';
+import { addPeriods, PERIOD_SUFFIX, SEASONAL_PERIODS } from './utils/calendar';
+import { DRIVER_KEYS, DRIVER_LABELS } from './utils/drivers';
+import { DemandProfile, DEFAULT_CLASS_METHODS, DEMAND_CLASSES, ADI_CUTOFF, CV2_CUTOFF } from './utils/demandClass';
+import { SEASONAL_STRENGTH_THRESHOLD } from './utils/seasonality';
+import { DECOMPOSITION_KEYS, DECOMPOSITION_LABELS } from './utils/decomposition';
+import { obsolescenceRisk } from './utils/lifecycle';
+import { holidaysByDefault } from './utils/events';
+import { loadOverrideLog, saveOverrideLog, saveOverride, setOverrideStatus, removeOverride, describeOverride, overrideId, OverrideLog, OVERRIDE_LAYERS, FORECAST_LAYERS, LAYER_LABELS, OVERRIDE_REASONS } from './utils/overrides';
+import {
+  forecastPlan, completePlan, chooseModel, comparisonTasks, ForecastInputs, PlanForecast, PlanResult, PlanSettings, TaskRunner
+} from './utils/engine';
+import { createForecastPool, isAbortError, PoolProgress } from './utils/workerPool';
+import { PoolTask, TaskResult } from './utils/workerProtocol';
+import { loadSnapshots, saveSnapshots, addSnapshot, indexActuals, accuracyWaterfall, forecastStability, diffSnapshots, SNAPSHOT_LAGS } from './utils/snapshots';
 import { getIndustryInsights, getMarketTrendAdjustment, MarketAdjustment, getNarrativeSummary, getOnePagerReport, getAnomalyAnalysis } from './services/aiService';
 import MetricsCard from './components/MetricsCard';
 import ChatAgent from './components/ChatAgent';
@@ -35,12 +49,45 @@ const formatNumber = (val: number) =>
   new Intl.NumberFormat('en-US').format(Math.round(val));
 
 const METHOD_DESCRIPTIONS: Record<ForecastMethodology, string> = {
-  [ForecastMethodology.HOLT_WINTERS]: "Triple exponential smoothing (Level, Trend, Seasonality). Best for distinct seasonal patterns.",
-  [ForecastMethodology.PROPHET]: "Additive model decomposition. Robust against missing data and outliers.",
-  [ForecastMethodology.ARIMA]: "Focuses on autocorrelation and moving averages. Best for stable, trending demand.",
-  [ForecastMethodology.LINEAR]: "Simple regression fitting a straight line. Ideal for long-term structural drift identification."
+  [ForecastMethodology.AUTO]: "Backtests every model on each series (total, categories and SKUs) and keeps, per series, the one with the lowest error on the chosen selection metric.",
+  [ForecastMethodology.HOLT_WINTERS]: "Triple exponential smoothing (Level, Trend, Seasonality) with seasonal swings proportional to volume. Smoothing weights fitted by minimising one-step SSE.",
+  [ForecastMethodology.HOLT_WINTERS_ADDITIVE]: "Triple exponential smoothing with constant-size seasonal swings. Best when peaks do not grow with the trend.",
+  [ForecastMethodology.HOLT_WINTERS_DAMPED]: "Multiplicative Holt-Winters with a damped trend that flattens over the horizon. Guards against over-extrapolating growth.",
+  [ForecastMethodology.HOLT_WINTERS_ADDITIVE_DAMPED]: "Additive Holt-Winters with a damped trend. Conservative choice for mature, seasonal lines.",
+  [ForecastMethodology.PROPHET]: "Piecewise-linear trend with automatic changepoints, Fourier seasonality and holiday/event effects.",
+  [ForecastMethodology.ARIMA]: "Seasonal ARIMA with automatic (p,d,q)(P,D,Q) order search by AIC and least-squares fitting. Best for stable, autocorrelated demand.",
+  [ForecastMethodology.ARIMAX]: "Regression on uploaded drivers (price, promo, marketing, macro) with ARIMA errors. Future drivers come from the driver scenarios.",
+  [ForecastMethodology.LINEAR]: "Simple regression fitting a straight line. Ideal for long-term structural drift identification.",
+  [ForecastMethodology.CROSTON]: "Smooths non-zero demand sizes and the intervals between them separately. Built for slow movers with many zero periods.",
+  [ForecastMethodology.SBA]: "Croston with the Syntetos-Boylan bias correction (1 - α/2). The usual default for intermittent SKUs.",
+  [ForecastMethodology.TSB]: "Smooths demand probability every period instead of intervals, so forecasts decay for items going obsolete.",
+  [ForecastMethodology.ENSEMBLE]: "Blends the best backtested models by mean, median or inverse-error weights. Intervals come from the blended fit's residuals."
 };
 
+// Every model that gets backtested and can be charted side by side
+const COMPARED_METHODOLOGIES = [...BASE_METHODOLOGIES, ForecastMethodology.ENSEMBLE];
+
+// Longest selectable forecast horizon per bucket size
+const MAX_HORIZON: Record<TimeInterval, number> = {
+  [TimeInterval.MONTHLY]: 24,
+  [TimeInterval.WEEKLY]: 52,
+  [TimeInterval.DAILY]: 90
+};
+
+const ANOMALY_DETECTOR_LABELS: Record<AnomalyDetector, string> = {
+  'rolling-mad': 'Rolling Median / MAD',
+  'stl': 'Seasonal Decomposition'
+};
+
+const RECONCILIATION_LABELS: Record<ReconciliationMethod, string> = {
+  'bottom-up': 'Bottom-Up',
+  'top-down': 'Top-Down (Hist. Proportions)',
+  'ols': 'OLS',
+  'mint': 'MinT (WLS Variance)'
+};
+
+const MODEL_COLORS = ['#6366f1', '#10b981', '#fb923c', '#ef4444', '#a855f7', '#14b8a6', '#eab308', '#ec4899', '#64748b', '#0ea5e9', '#84cc16', '#f43f5e'];
+
 const CustomTrendTooltip = ({ active, payload, label }: any) => {
   if (active && payload && payload.length) {
     return (
@@ -63,6 +110,9 @@ const CustomTrendTooltip = ({ active, payload, label }: any) => {
             } else if (entry.dataKey === 'lowerBound') {
               displayName = 'Lower Bound Quantity';
               displayColor = '#ef4444';
+            } else if (entry.dataKey === 'quantiles.P10' || entry.dataKey === 'quantiles.P90') {
+              displayName = `${entry.dataKey.split('.')[1]} Quantity`;
+              displayColor = '#f59e0b';
             }
 
             return (
@@ -274,7 +324,7 @@ const SchemaModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpe
           </div>
           <div className="p-4 bg-slate-950 rounded-2xl border border-slate-800">
             <h3 className="text-[10px] font-black uppercase text-emerald-400 mb-2">Attributes (attr.csv)</h3>
-            <p className="text-[11px] mb-2 font-mono text-slate-500">sku, category, leadTimeDays, unitCost, sellingPrice, serviceLevel</p>
+            <p className="text-[11px] mb-2 font-mono text-slate-500">sku, category, leadTimeDays, unitCost, sellingPrice, serviceLevel, analogs (optional, e.g. SKU-101:0.8;SKU-205:1), endOfLifeDate (optional), launchDate (optional)</p>
           </div>
           <div className="p-4 bg-slate-950 rounded-2xl border border-slate-800">
             <h3 className="text-[10px] font-black uppercase text-orange-400 mb-2">Inventory (inv.csv)</h3>
@@ -287,24 +337,122 @@ const SchemaModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpe
   );
 };
 
+// Stands in until the first forecast lands
+const NO_FORECAST: PlanForecast = {
+  chain: { data: [], links: [], pending: [] }, quality: [], anomalyLog: [], history: [], analogs: undefined,
+  hierarchy: { nodes: [], summing: [] }, events: [], drivers: undefined, model: chooseModel(null, DEFAULT_FILTERS),
+  demandProfiles: new Map(), skuMethods: new Map(), seriesSelections: new Map(), nodeMethods: new Map(),
+  runs: new Map(), reconciliation: { levels: [], errors: new Map() }, bias: new Map(), reconciled: new Map(), endOfLife: new Map()
+};
+
+// One pool for the app's lifetime; its workers start on the first run
+const forecastPool = createForecastPool();
+
+// Runs a task list on the forecast pool. A new list cancels the one in flight; the last results stay in place meanwhile,
+// and after a failure too, with the failure kept for the UI until a run succeeds
+const usePooledTasks = <T extends PoolTask,>(tasks: T[] | null) => {
+  const [settled, setSettled] = useState<{ tasks: T[] | null; results: Map<string, TaskResult<T>>; error: string | null }>({ tasks: null, results: new Map(), error: null });
+  const [progress, setProgress] = useState<PoolProgress>({ done: 0, total: 0, cached: 0 });
+
+  useEffect(() => {
+    if (!tasks) return;
+    const controller = new AbortController();
+    let shown = -1;
+    forecastPool.run(tasks, {
+      signal: controller.signal,
+      // Re-render at most once per percent of the run
+      onProgress: (p: PoolProgress) => {
+        if (p.done !== p.total && p.done - shown < p.total / 100) return;
+        shown = p.done;
+        setProgress(p);
+      }
+    })
+      .then((results: Map<string, TaskResult<T>>) => setSettled({ tasks, results, error: null }))
+      .catch((e: unknown) => {
+        if (isAbortError(e)) return;
+        const error = e instanceof Error ? e.message : String(e);
+        setSettled((s: { results: Map<string, TaskResult<T>> }) => ({ tasks, results: s.results, error }));
+      });
+    return () => controller.abort();
+  }, [tasks]);
+
+  return { results: settled.results, progress, pending: tasks !== null && tasks !== settled.tasks, error: settled.error };
+};
+
+// Runs the engine's forecast stages with every task list on the pool. New inputs cancel the run in flight; the last
+// forecast stays in place meanwhile, and after a failure too, with the failure kept for the UI until a run succeeds
+const usePlanForecast = (inputs: ForecastInputs, settings: PlanSettings) => {
+  const request = useMemo(() => ({ inputs, settings }), [inputs, settings]);
+  const [settled, setSettled] = useState<{ request: unknown; forecast: PlanForecast | null; error: string | null }>({ request: null, forecast: null, error: null });
+  const [progress, setProgress] = useState<PoolProgress>({ done: 0, total: 0, cached: 0 });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    // Progress of every task list the run has started, summed
+    const batches: PoolProgress[] = [];
+    let shown = -1;
+    const run: TaskRunner = tasks => {
+      const batch = batches.push({ done: 0, total: tasks.length, cached: 0 }) - 1;
+      return forecastPool.run(tasks, {
+        signal: controller.signal,
+        onProgress: (p: PoolProgress) => {
+          batches[batch] = p;
+          const sum = batches.reduce((t, b) => ({ done: t.done + b.done, total: t.total + b.total, cached: t.cached + b.cached }), { done: 0, total: 0, cached: 0 });
+          // Re-render at most once per percent of the run
+          if (sum.done !== sum.total && sum.done - shown < sum.total / 100) return;
+          shown = sum.done;
+          setProgress(sum);
+        }
+      });
+    };
+    forecastPlan(request.inputs, request.settings, run)
+      .then((forecast: PlanForecast) => setSettled({ request, forecast, error: null }))
+      .catch((e: unknown) => {
+        if (isAbortError(e)) return;
+        const error = e instanceof Error ? e.message : String(e);
+        setSettled((s: { forecast: PlanForecast | null }) => ({ request, forecast: s.forecast, error }));
+      });
+    return () => controller.abort();
+  }, [request]);
+
+  return { forecast: settled.forecast, progress, pending: request !== settled.request, error: settled.error };
+};
+
 const App: React.FC = () => {
   const [data, setData] = useState<DataPoint[]>(SAMPLE_DATA);
   const [inventory, setInventory] = useState<InventoryLevel[]>(SAMPLE_INVENTORY);
   const [attributes, setAttributes] = useState<ProductAttribute[]>(SAMPLE_ATTRIBUTES);
   const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [driverRecords, setDriverRecords] = useState<DriverRecord[]>([]);
+  const [driverScenarios, setDriverScenarios] = useState<DriverScenario[]>([]);
+  const [anomalyReviews, setAnomalyReviews] = useState<Record<string, AnomalyReview>>({});
+  const [fillPolicies, setFillPolicies] = useState<Record<string, FillPolicy>>({});
+  const [supersessions, setSupersessions] = useState<Supersession[]>([]);
+  const [draftSupersession, setDraftSupersession] = useState<Omit<Supersession, 'id'>>({ oldSku: SKUS[0], newSku: SKUS[1], effectiveDate: '2024-01-01', ratio: 1 });
+  const [draftPhaseOut, setDraftPhaseOut] = useState({ sku: SKUS[0], date: '2024-12-01' });
+  const [classMethods, setClassMethods] = useState<Record<DemandClass, ForecastMethodology>>(DEFAULT_CLASS_METHODS);
+  const [skuMethodOverrides, setSkuMethodOverrides] = useState<Record<string, ForecastMethodology>>({});
+  const [draftAnalog, setDraftAnalog] = useState({ sku: SKUS[0], analog: SKUS[1], scale: 1 });
+  // Unset until the planner flips the toggle; the default depends on the bucket size
+  const [includeHolidays, setIncludeHolidays] = useState<boolean | undefined>(undefined);
+  const [decompositionDate, setDecompositionDate] = useState('');
+  const [customEvents, setCustomEvents] = useState<ForecastEvent[]>([]);
+  const [snapshots, setSnapshots] = useState<ForecastSnapshot[]>(loadSnapshots);
+  const [diffIds, setDiffIds] = useState({ a: '', b: '' });
+  const [overrideLog, setOverrideLog] = useState<OverrideLog>(loadOverrideLog);
+  const [overrideAuthor, setOverrideAuthor] = useState('Demand Planner');
+  const [overrideSkuChoice, setOverrideSkuChoice] = useState(SKUS[0]);
+  const [draftOverride, setDraftOverride] = useState<{ layer: OverrideLayer; date: string; mode: OverrideMode; value: number; reason: OverrideReason; note: string }>({ layer: 'sales', date: '', mode: 'percent', value: 0, reason: 'promotion', note: '' });
+  const [draftEvent, setDraftEvent] = useState<Omit<ForecastEvent, 'id'>>({ name: 'Promotion', start: '2024-06-01', end: '2024-06-07', recurring: false });
+  const [draftDriverScenario, setDraftDriverScenario] = useState<Omit<DriverScenario, 'id'>>({ sku: 'ALL', driver: 'price', startPeriod: 1, endPeriod: 3, value: 0 });
   const [draftIndustryPrompt, setDraftIndustryPrompt] = useState('Global manufacturer of industrial sensors');
   const [draftHorizon, setDraftHorizon] = useState(DEFAULT_HORIZON);
   const [draftAudience, setDraftAudience] = useState<AudienceType>(AudienceType.EXECUTIVE);
-  const [filters, setFilters] = useState<FilterState>({
-    startDate: '2021-01-01', endDate: '2024-05-01', skus: SKUS, category: 'All',
-    confidenceLevel: 95, methodology: ForecastMethodology.HOLT_WINTERS,
-    includeExternalTrends: false, globalLeadTime: 30, globalServiceLevel: 0.95,
-    applyAnomalyCleaning: false, showLeadTimeOffset: false, aiProvider: AiProvider.GEMINI,
-    supplierVolatility: 0
-  });
+  const [filters, setFilters] = useState<FilterState>(DEFAULT_FILTERS);
   
-  const [committedSettings, setCommittedSettings] = useState({ filters: { ...filters }, horizon: draftHorizon, industryPrompt: draftIndustryPrompt, audience: draftAudience, triggerToken: 0 });
+  const [committedSettings, setCommittedSettings] = useState({ filters: { ...filters }, horizon: draftHorizon, industryPrompt: draftIndustryPrompt, audience: draftAudience, classMethods, skuMethodOverrides, includeHolidays, customEvents, triggerToken: 0 });
   const [activeTab, setActiveTab] = useState<'future' | 'quality' | 'inventory' | 'financials' | 'pareto'>('future');
+  const [drillSku, setDrillSku] = useState('ALL');
   const [aiInsight, setAiInsight] = useState('Analyze context to generate insights...');
   const [narrativeText, setNarrativeText] = useState('Business narrative pending analysis...');
   const [anomalyRca, setAnomalyRca] = useState<string | null>(null);
@@ -319,53 +467,53 @@ const App: React.FC = () => {
   const histUploadRef = useRef<HTMLInputElement>(null);
   const attrUploadRef = useRef<HTMLInputElement>(null);
   const invUploadRef = useRef<HTMLInputElement>(null);
+  const driverUploadRef = useRef<HTMLInputElement>(null);
+  const snapshotToken = useRef(0);
+
+  const holidaysOn = includeHolidays ?? holidaysByDefault(filters.interval);
 
-  const handleRunAnalysis = () => setCommittedSettings({ filters: { ...filters }, horizon: draftHorizon, industryPrompt: draftIndustryPrompt, audience: draftAudience, triggerToken: Date.now() });
+  const handleRunAnalysis = () => setCommittedSettings({ filters: { ...filters }, horizon: draftHorizon, industryPrompt: draftIndustryPrompt, audience: draftAudience, classMethods, skuMethodOverrides, includeHolidays, customEvents, triggerToken: Date.now() });
 
-  const handleFileUpload = (type: 'hist' | 'inv' | 'attr', e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = (type: 'hist' | 'inv' | 'attr' | 'drivers', e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]; if (!file) return;
     const reader = new FileReader();
     reader.onload = (event) => {
       const text = event.target?.result as string;
-      const lines = text.split('\n');
       if (type === 'hist') {
-        const newData = lines.slice(1).filter(l => l.includes(',')).map(line => {
-          const p = line.split(','); return { date: p[0].trim(), sku: p[1].trim(), category: p[2].trim(), quantity: parseInt(p[3].trim()) || 0 };
-        });
+        const newData = parseSalesCSV(text);
         if (newData.length > 0) setData(newData);
       } else if (type === 'inv') {
-        const newInv = lines.slice(1).filter(l => l.includes(',')).map(line => {
-          const p = line.split(','); return { sku: p[0].trim(), onHand: parseInt(p[1].trim()) || 0, lastUpdated: new Date().toISOString() } as InventoryLevel;
-        });
+        const newInv = parseInventoryCSV(text);
         if (newInv.length > 0) setInventory(newInv);
       } else if (type === 'attr') {
-        const newAttr = lines.slice(1).filter(l => l.includes(',')).map(line => {
-          const p = line.split(','); return { sku: p[0].trim(), category: p[1].trim(), leadTimeDays: parseInt(p[2].trim()) || 30, unitCost: parseFloat(p[3].trim()) || 10, sellingPrice: parseFloat(p[4].trim()) || 15, serviceLevel: parseFloat(p[5].trim()) || 0.95 } as ProductAttribute;
-        });
+        const newAttr = parseAttributesCSV(text);
         if (newAttr.length > 0) setAttributes(newAttr);
+      } else if (type === 'drivers') {
+        const newDrivers = parseDriversCSV(text);
+        if (newDrivers.length > 0) setDriverRecords(newDrivers);
       }
     };
     reader.readAsText(file);
   };
 
-  const processedData = useMemo(() => {
-    let d = committedSettings.filters.applyAnomalyCleaning ? cleanAnomalies(data) : data;
-    return d.filter(item => {
-      const itemDate = new Date(item.date).getTime();
-      const start = new Date(committedSettings.filters.startDate).getTime();
-      const end = new Date(committedSettings.filters.endDate).getTime();
-      const matchesDate = itemDate >= start && itemDate <= end;
-      const matchesSku = committedSettings.filters.skus.length === 0 || committedSettings.filters.skus.includes(item.sku);
-      const matchesCategory = committedSettings.filters.category === 'All' || item.category === committedSettings.filters.category;
-      return matchesDate && matchesSku && matchesCategory;
-    }).sort((a, b) => a.date.localeCompare(b.date));
-  }, [data, committedSettings]);
-
-  const aggregatedData = useMemo(() => {
-    const map = new Map<string, number>();
-    processedData.forEach(d => map.set(d.date, (map.get(d.date) || 0) + d.quantity));
-    return Array.from(map.entries()).map(([date, quantity]) => ({ date, quantity, sku: 'ALL', category: 'ALL' } as DataPoint)).sort((a, b) => a.date.localeCompare(b.date));
-  }, [processedData]);
+  // Inputs of the forecast stages; inventory, scenarios, overrides and the market multiplier only change the SKU plans below
+  const forecastInputs: ForecastInputs = useMemo(
+    () => ({
+      data, attributes, driverRecords, driverScenarios, supersessions, fillPolicies, anomalyReviews,
+      customEvents: committedSettings.customEvents, includeHolidays: committedSettings.includeHolidays,
+      classMethods: committedSettings.classMethods, skuMethodOverrides: committedSettings.skuMethodOverrides
+    }),
+    [data, attributes, driverRecords, driverScenarios, supersessions, fillPolicies, anomalyReviews, committedSettings]
+  );
+
+  // The engine's forecast stages, each task list on the pool; the CLI runs the same function inline
+  const forecastJob = usePlanForecast(forecastInputs, committedSettings);
+  const forecast: PlanForecast = forecastJob.forecast ?? NO_FORECAST;
+  const {
+    chain: chainedHistory, quality: dataQuality, anomalyLog, history: aggregatedData, hierarchy, model: modelChoice,
+    demandProfiles, seriesSelections, nodeMethods, runs: hierarchyRuns, reconciliation: hierarchyBacktest, bias: biasEstimates, endOfLife
+  } = forecast;
+  const { ensembleSpec, backtest: backtestRun, selection: modelSelection, method: effectiveMethod } = modelChoice;
 
   const stats = useMemo(() => {
     const values = aggregatedData.map(d => d.quantity);
@@ -374,84 +522,188 @@ const App: React.FC = () => {
     return { avg, std };
   }, [aggregatedData]);
 
-  const futureForecast = useMemo(() => {
-    if (aggregatedData.length === 0) return [];
-    let raw = calculateForecast(aggregatedData, committedSettings.horizon, 'monthly', committedSettings.filters.confidenceLevel, committedSettings.filters.methodology);
-    if (committedSettings.filters.includeExternalTrends && marketAdj) {
-      raw = raw.map(p => p.isForecast ? { ...p, forecast: Math.round(p.forecast * marketAdj.multiplier) } : p);
-    }
-    const currentInv = inventory.filter(i => committedSettings.filters.skus.includes(i.sku)).reduce((s, i) => s + i.onHand, 0);
-    return calculateSupplyChainMetrics(
-      raw, 
-      stats.std, 
-      committedSettings.filters.globalLeadTime, 
-      committedSettings.filters.globalServiceLevel, 
-      currentInv, 
-      scenarios, 
-      committedSettings.filters.showLeadTimeOffset,
-      committedSettings.filters.supplierVolatility,
-      attributes
-    );
-  }, [aggregatedData, committedSettings, marketAdj, stats.std, inventory, scenarios, attributes]);
+  const backtestResults = useMemo(() => {
+    const result = backtestRun;
+    if (!result) return { comparisonData: [], metrics: null, modelComparison: [], horizonAccuracy: [], originCount: 0 };
 
-  const financialStats = useMemo(() => {
-    const forecastOnly = futureForecast.filter(f => f.isForecast);
-    const totalRevenue = Math.round(forecastOnly.reduce((s, f) => s + (f.projectedRevenue || 0), 0));
-    const totalMargin = Math.round(forecastOnly.reduce((s, f) => s + (f.projectedMargin || 0), 0));
-    const avgInventoryValue = Math.round(forecastOnly.reduce((s, f) => s + (f.inventoryValue || 0), 0) / (forecastOnly.length || 1));
-    const valueAtRisk = Math.round(totalRevenue * (committedSettings.filters.supplierVolatility * 0.25));
-    return { totalRevenue, totalMargin, avgInventoryValue, valueAtRisk };
-  }, [futureForecast, committedSettings]);
+    const current = result.models.find(m => m.method === effectiveMethod);
+    const comparisonData = result.latestDates.map((date, i) => ({
+      date, forecast: current?.latestForecast[i], actual: result.latestActuals[i]
+    }));
 
-  const backtestResults = useMemo(() => {
-    if (aggregatedData.length <= 8) return { comparisonData: [], metrics: null, modelComparison: [], backtestForecast: [] };
-    const splitIndex = aggregatedData.length - 6;
-    const trainData = aggregatedData.slice(0, splitIndex);
-    const actualTestData = aggregatedData.slice(splitIndex);
-
-    const testForecast = calculateForecast(trainData, 6, 'monthly', committedSettings.filters.confidenceLevel, committedSettings.filters.methodology);
-    const backtestOnly = testForecast.filter(f => f.isForecast).map((f, i) => ({
-      ...f,
-      actual: actualTestData[i]?.quantity || null
+    const modelComparison = result.models.map(m => ({
+      method: m.method, label: m.label,
+      accuracy: m.metrics.accuracy.mean, accuracyStd: m.metrics.accuracy.std,
+      mape: m.metrics.mape.mean, rmse: m.metrics.rmse.mean, bias: m.metrics.bias.mean,
+      mase: m.metrics.mase.mean, fva: m.metrics.fva.mean
     }));
 
-    const modelComparison = Object.values(ForecastMethodology).map(m => {
-      const f = calculateForecast(trainData, 6, 'monthly', committedSettings.filters.confidenceLevel, m).filter(x => x.isForecast).map(x => x.forecast);
-      const mtr = calculateMetrics(actualTestData.map(d => d.quantity), f, 1, 1);
-      return { method: m, mape: mtr.mape, accuracy: mtr.accuracy, rmse: mtr.rmse, bias: mtr.bias };
+    // One row per lag, one column per model, for the accuracy-by-horizon chart
+    const horizonAccuracy = Array.from({ length: committedSettings.filters.backtestHorizon }, (_, i) => ({
+      lag: `Lag ${i + 1}`,
+      ...Object.fromEntries(result.models.map(m => [m.method, m.byHorizon[i].accuracy]))
+    }));
+
+    return { comparisonData, metrics: current?.metrics || null, modelComparison, horizonAccuracy, originCount: result.originDates.length };
+  }, [backtestRun, effectiveMethod, committedSettings.filters.backtestHorizon]);
+
+  // Forward runs of every methodology on the total, for the leaderboard, once the forecast they compare with has landed
+  const modelRunTasks = useMemo(
+    () => forecastJob.pending ? null : comparisonTasks(forecast.history, committedSettings, COMPARED_METHODOLOGIES, ensembleSpec, forecast.drivers, forecast.events),
+    [forecast, committedSettings, ensembleSpec, forecastJob.pending]
+  );
+
+  const modelRunJob = usePooledTasks(modelRunTasks);
+  const modelRuns = useMemo(
+    () => Object.fromEntries(modelRunJob.results) as Record<ForecastMethodology, ForecastRun>,
+    [modelRunJob.results]
+  );
+
+  // Only the jobs still running count towards the progress shown under Run Analysis
+  const pooledJobs = [forecastJob, modelRunJob];
+  const forecastJobs = pooledJobs.filter(j => j.pending);
+  const forecastError = pooledJobs.find(j => j.error)?.error ?? null;
+  const isForecasting = forecastJobs.length > 0;
+  const forecastProgress = forecastJobs.reduce(
+    (sum, j) => ({ done: sum.done + j.progress.done, total: sum.total + j.progress.total, cached: sum.cached + j.progress.cached }),
+    { done: 0, total: 0, cached: 0 }
+  );
+
+  // Each SKU carries its own safety stock, reorder point and financials; the summary is their roll-up
+  const plan: PlanResult = useMemo(
+    () => completePlan(forecast, { ...forecastInputs, inventory, scenarios, overrides: overrideLog.overrides, marketMultiplier: marketAdj?.multiplier }, committedSettings),
+    [forecast, forecastInputs, inventory, scenarios, overrideLog, marketAdj, committedSettings]
+  );
+  const { skus: skuForecasts, total: futureForecast, financials: financialStats, abc: paretoResults } = plan;
+
+  const obsolescence = useMemo(() => {
+    const inScope = new Map<string, string>(committedSettings.filters.skus.filter(sku => endOfLife.has(sku)).map(sku => [sku, endOfLife.get(sku)!]));
+    return obsolescenceRisk(inScope, new Map(skuForecasts.map(s => [s.sku, s.points])), inventory, attributes, supersessions);
+  }, [endOfLife, skuForecasts, inventory, attributes, supersessions, committedSettings]);
+
+  const seasonalityRows = useMemo(() => hierarchy.nodes.flatMap(n => {
+    const seasonality = hierarchyRuns.get(n.id)?.seasonality;
+    return seasonality ? [{ id: n.id, name: n.name, level: n.level, ...seasonality }] : [];
+  }), [hierarchy, hierarchyRuns]);
+
+  const displayedRun = hierarchyRuns.get(drillSku === 'ALL' ? 'total:Total' : `sku:${drillSku}`);
+  const displayedDrivers = displayedRun?.fit?.drivers;
+
+  // Additive model components on the run's own calendar, history then horizon
+  const displayedComponents = useMemo(() => {
+    const components = displayedRun?.fit?.components;
+    if (!displayedRun || !components) return null;
+    const dates = displayedRun.points.map((p: { date: string }) => p.date);
+    return {
+      data: dates.map((date: string, i: number) => ({ date, trend: components.trend[i], seasonal: components.seasonal[i], events: components.events[i] })),
+      changepoints: components.changepoints.map(c => ({ ...c, date: dates[c.index] })),
+      eventEffects: components.eventEffects,
+      origin: dates[displayedRun.points.filter((p: { isForecast: boolean }) => !p.isForecast).length - 1]
+    };
+  }, [displayedRun]);
+
+  const displayedForecast = useMemo(
+    () => (drillSku === 'ALL' ? futureForecast : skuForecasts.find(s => s.sku === drillSku)?.points ?? futureForecast),
+    [drillSku, futureForecast, skuForecasts]
+  );
+
+  // With bias correction on, the planned line is shown next to what it would be without the correction
+  const trendChartData = useMemo(() => {
+    const points: ForecastPoint[] = displayedForecast;
+    if (!committedSettings.filters.biasCorrection) return points;
+    return points.map(p => (p.isForecast && p.decomposition ? { ...p, uncorrectedForecast: (p.scenarioForecast ?? p.forecast) - p.decomposition.bias } : p));
+  }, [displayedForecast, committedSettings]);
+
+  // Waterfall from the model's level to the planned quantity for one forecast period
+  const decompositionView = useMemo(() => {
+    const points: ForecastPoint[] = displayedForecast;
+    const future = points.filter(p => p.isForecast && p.decomposition);
+    const point = future.find(p => p.date === decompositionDate) ?? future[0];
+    if (!point) return null;
+    const parts = point.decomposition!;
+    const total = point.scenarioForecast ?? point.forecast;
+    let running = 0;
+    const steps: { key: string; name: string; value: number; offset: number; size: number; total: boolean }[] = DECOMPOSITION_KEYS.filter(k => k === 'level' || Math.abs(parts[k]) >= 0.5).map(k => {
+      const start = running;
+      running += parts[k];
+      return { key: k, name: DECOMPOSITION_LABELS[k], value: parts[k], offset: Math.min(start, running), size: Math.abs(parts[k]), total: false };
     });
+    steps.push({ key: 'planned', name: 'Planned', value: total, offset: 0, size: total, total: true });
+
+    const { interval } = committedSettings.filters;
+    const priorDate = addPeriods(point.date, interval, -SEASONAL_PERIODS[interval]);
+    const prior = points.find(p => p.date === priorDate);
+    const priorValue = prior && (prior.isForecast ? prior.scenarioForecast ?? prior.forecast : prior.historical);
+    return { date: point.date, dates: future.map(p => p.date), steps, total, priorDate, priorValue };
+  }, [displayedForecast, decompositionDate, committedSettings]);
 
-    const currentMethodMetrics = modelComparison.find(m => m.method === committedSettings.filters.methodology);
-    return { comparisonData: backtestOnly, metrics: currentMethodMetrics || null, modelComparison, backtestForecast: testForecast };
-  }, [aggregatedData, committedSettings]);
+  // Layer grid and workflow for one SKU: the drilled one, or the editor's own pick on the total
+  const overrideView = useMemo(() => {
+    const sku: string | undefined = drillSku !== 'ALL' ? drillSku : skuForecasts.some(s => s.sku === overrideSkuChoice) ? overrideSkuChoice : skuForecasts[0]?.sku;
+    const points: ForecastPoint[] = (skuForecasts.find(s => s.sku === sku)?.points ?? []).filter(p => p.isForecast);
+    const dates = points.map(p => p.period ?? p.date);
+    const overrides: ForecastOverride[] = overrideLog.overrides.filter((o: ForecastOverride) => o.sku === sku).sort((a: ForecastOverride, b: ForecastOverride) => a.date.localeCompare(b.date) || OVERRIDE_LAYERS.indexOf(a.layer) - OVERRIDE_LAYERS.indexOf(b.layer));
+    const audit: OverrideAuditEntry[] = overrideLog.audit.filter((e: OverrideAuditEntry) => e.overrideId.split('|')[1] === sku).slice(-10).reverse();
+    return {
+      sku,
+      points,
+      date: dates.includes(draftOverride.date) ? draftOverride.date : dates[0],
+      dates,
+      overrides,
+      byId: new Map(overrides.map(o => [o.id, o])),
+      audit
+    };
+  }, [drillSku, skuForecasts, overrideSkuChoice, overrideLog, draftOverride.date]);
+
+  // Overrides and their audit trail are kept in browser storage, like the snapshots
+  useEffect(() => saveOverrideLog(overrideLog), [overrideLog]);
+
+  const handleSaveOverride = () => {
+    const { sku, date } = overrideView;
+    if (!sku || !date) return;
+    const { layer, mode, value, reason, note } = draftOverride;
+    setOverrideLog((log: OverrideLog) => saveOverride(log, { sku, date, layer, mode, value, reason, note: note.trim() || undefined, author: overrideAuthor.trim() || 'Unknown' }));
+  };
+
+  // Committed runs scored against whatever actuals have arrived since, on the current bucket size
+  const snapshotActuals = useMemo(() => indexActuals(chainedHistory.data, committedSettings.filters.interval), [chainedHistory, committedSettings]);
+
+  const snapshotView = useMemo(() => {
+    const list: ForecastSnapshot[] = snapshots;
+    const comparable = list.filter(s => s.settings.filters.interval === committedSettings.filters.interval);
+    const waterfall = accuracyWaterfall(comparable, snapshotActuals, drillSku);
+    const stability = new Map(forecastStability(list, drillSku).map(s => [s.version, s]));
+    const a = list.find(s => s.id === diffIds.a) ?? list[list.length - 2];
+    const b = list.find(s => s.id === diffIds.b) ?? list[list.length - 1];
+    const diff = a && b && a.id !== b.id ? { a, b, ...diffSnapshots(a, b, drillSku) } : null;
+    const meanStability = stability.size > 0 ? Array.from(stability.values()).reduce((sum, v) => sum + v.stability, 0) / stability.size : null;
+    return { waterfall, stability, meanStability, diff };
+  }, [snapshots, snapshotActuals, drillSku, diffIds, committedSettings]);
 
   const runRca = async () => {
     setIsRcaLoading(true);
-    const outliers = aggregatedData.filter(d => Math.abs(d.quantity - stats.avg) > stats.std * 1.5);
-    const analysis = await getAnomalyAnalysis(committedSettings.filters.aiProvider, committedSettings.industryPrompt, outliers.slice(-5));
+    // Planner-rejected flags are known-good demand, so they are left out of the RCA
+    const outliers = anomalyLog.filter(a => a.status !== 'rejected').slice(0, 8);
+    const analysis = await getAnomalyAnalysis(committedSettings.filters.aiProvider, committedSettings.industryPrompt, outliers);
     setAnomalyRca(analysis);
     setIsRcaLoading(false);
   };
 
   const handleExport = () => {
-    exportToCSV(futureForecast, `forecast_${committedSettings.industryPrompt.replace(/\s+/g, '_').toLowerCase()}`);
+    exportToCSV([...futureForecast, ...skuForecasts.flatMap(s => s.points)], `forecast_${committedSettings.industryPrompt.replace(/\s+/g, '_').toLowerCase()}`, backtestResults.metrics);
   };
 
-  const paretoResults = useMemo(() => {
-    const skuMap = new Map<string, number>();
-    data.forEach(d => {
-       const matchesCategory = committedSettings.filters.category === 'All' || d.category === committedSettings.filters.category;
-       if (matchesCategory) {
-         skuMap.set(d.sku, (skuMap.get(d.sku) || 0) + d.quantity);
-       }
-    });
-    return runParetoAnalysis(Array.from(skuMap.entries()).map(([sku, totalVolume]) => ({ sku, totalVolume })));
-  }, [data, committedSettings.filters.category]);
+  const handleExportClassification = () => {
+    exportClassificationCSV(paretoResults.map(p => {
+      const profile = demandProfiles.get(p.sku);
+      return { ...p, profile, methodology: nodeMethods.get(`sku:${p.sku}`) };
+    }), `demand_classification_${committedSettings.industryPrompt.replace(/\s+/g, '_').toLowerCase()}`);
+  };
 
   const dashboardContext = useMemo(() => {
     const financials = `Revenue: $${formatNumber(financialStats.totalRevenue)}. Risk: $${formatNumber(financialStats.valueAtRisk)}.`;
-    return `Dashboard state: Business "${committedSettings.industryPrompt}". Accuracy: ${backtestResults.metrics?.accuracy.toFixed(1)}%. ${financials}`;
-  }, [committedSettings, backtestResults, financialStats]);
+    return `Dashboard state: Business "${committedSettings.industryPrompt}". Model: ${effectiveMethod}. Accuracy: ${backtestResults.metrics?.accuracy.mean.toFixed(1)}%. ${financials}`;
+  }, [committedSettings, effectiveMethod, backtestResults, financialStats]);
 
   const handleGenerateReport = async () => { 
     setIsReportOpen(true); 
@@ -468,7 +720,7 @@ const App: React.FC = () => {
     const runAI = async () => {
       setIsLoading(true);
       const [insights, narrative] = await Promise.all([
-        getIndustryInsights(committedSettings.filters.aiProvider, committedSettings.industryPrompt, `Avg: ${Math.round(stats.avg)}. Accuracy: ${backtestResults.metrics?.accuracy.toFixed(1)}%`),
+        getIndustryInsights(committedSettings.filters.aiProvider, committedSettings.industryPrompt, `Avg: ${Math.round(stats.avg)}. Accuracy: ${backtestResults.metrics?.accuracy.mean.toFixed(1)}%`),
         getNarrativeSummary(committedSettings.filters.aiProvider, committedSettings.industryPrompt, stats.avg, stats.avg, committedSettings.horizon, committedSettings.audience, committedSettings.filters.skus)
       ]);
       setAiInsight(insights);
@@ -484,6 +736,18 @@ const App: React.FC = () => {
     runAI();
   }, [committedSettings.triggerToken]);
 
+  // Version each committed run once its market adjustment and its forecasts have landed
+  useEffect(() => {
+    if (isLoading || isForecasting || committedSettings.triggerToken === 0 || snapshotToken.current === committedSettings.triggerToken) return;
+    snapshotToken.current = committedSettings.triggerToken;
+    const { filters, horizon, industryPrompt } = committedSettings;
+    setSnapshots((list: ForecastSnapshot[]) => {
+      const next = addSnapshot(list, { filters, horizon, industryPrompt }, effectiveMethod, hierarchyRuns.get('total:Total')?.fit?.label, futureForecast, skuForecasts);
+      saveSnapshots(next);
+      return next;
+    });
+  }, [isLoading, isForecasting]);
+
   const toggleSku = (sku: string) => {
     setFilters(f => {
       const isSelected = f.skus.includes(sku);
@@ -523,7 +787,7 @@ const App: React.FC = () => {
             <h3 className="text-[9px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-2"><Database size={10}/> Data Console</h3>
             <button onClick={() => setIsSchemaModalOpen(true)} className="text-[8px] font-black uppercase text-indigo-400 hover:underline">Schema Guide</button>
           </div>
-          <div className="grid grid-cols-3 gap-1.5">
+          <div className="grid grid-cols-4 gap-1.5">
             <button onClick={() => histUploadRef.current?.click()} className="p-2 bg-slate-950 border border-slate-800 rounded-lg text-slate-400 hover:border-indigo-500 transition-all flex flex-col items-center gap-1 group">
               <FileText size={12} className="text-indigo-400 group-hover:scale-110 transition-transform"/><span className="text-[7px] font-black uppercase">Sales</span>
             </button>
@@ -533,10 +797,14 @@ const App: React.FC = () => {
             <button onClick={() => invUploadRef.current?.click()} className="p-2 bg-slate-950 border border-slate-800 rounded-lg text-slate-400 hover:border-orange-500 transition-all flex flex-col items-center gap-1 group">
               <Package size={12} className="text-orange-400 group-hover:scale-110 transition-transform"/><span className="text-[7px] font-black uppercase">Stock</span>
             </button>
+            <button onClick={() => driverUploadRef.current?.click()} className="p-2 bg-slate-950 border border-slate-800 rounded-lg text-slate-400 hover:border-sky-500 transition-all flex flex-col items-center gap-1 group">
+              <TrendingUp size={12} className="text-sky-400 group-hover:scale-110 transition-transform"/><span className="text-[7px] font-black uppercase">Drivers</span>
+            </button>
           </div>
           <input type="file" ref={histUploadRef} className="hidden" onChange={e => handleFileUpload('hist', e)} />
           <input type="file" ref={attrUploadRef} className="hidden" onChange={e => handleFileUpload('attr', e)} />
           <input type="file" ref={invUploadRef} className="hidden" onChange={e => handleFileUpload('inv', e)} />
+          <input type="file" ref={driverUploadRef} className="hidden" onChange={e => handleFileUpload('drivers', e)} />
         </section>
 
         <section className="space-y-2 pt-2 border-t border-slate-800">
@@ -558,11 +826,47 @@ const App: React.FC = () => {
         <section className="space-y-2 pt-2 border-t border-slate-800">
           <h3 className="text-[9px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-2"><Calendar size={10}/> Forecast Scope</h3>
           <div className="space-y-2.5 p-3 bg-slate-950 rounded-xl border border-slate-800">
-            <div className="flex justify-between text-[8px] font-black text-slate-500 uppercase tracking-widest"><span>Horizon</span><span className="text-indigo-400">{draftHorizon}M</span></div>
-            <input type="range" min="1" max="24" className="w-full accent-indigo-500 h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer" value={draftHorizon} onChange={e => setDraftHorizon(Number(e.target.value))} />
+            <div className="grid grid-cols-3 gap-1.5">
+              {Object.values(TimeInterval).map(iv => (
+                <button key={iv} onClick={() => { setFilters(f => ({...f, interval: iv})); setDraftHorizon(h => Math.min(h, MAX_HORIZON[iv])); }} className={`py-1.5 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all ${filters.interval === iv ? 'bg-indigo-600 text-white' : 'bg-slate-900 text-slate-500 hover:text-slate-300'}`}>
+                  {iv}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex justify-between text-[8px] font-black text-slate-500 uppercase tracking-widest"><span>Horizon</span><span className="text-indigo-400">{draftHorizon}{PERIOD_SUFFIX[filters.interval]}</span></div>
+            <input type="range" min="1" max={MAX_HORIZON[filters.interval]} className="w-full accent-indigo-500 h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer" value={draftHorizon} onChange={e => setDraftHorizon(Number(e.target.value))} />
             
             <div className="flex justify-between text-[8px] font-black text-slate-500 uppercase tracking-widest"><span>Confidence</span><span className="text-emerald-400">{filters.confidenceLevel}%</span></div>
             <input type="range" min="80" max="99" step="5" className="w-full accent-emerald-500 h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer" value={filters.confidenceLevel} onChange={e => setFilters(f => ({...f, confidenceLevel: Number(e.target.value)}))} />
+
+            <div className="flex items-center justify-between">
+              <label className="text-[8px] font-black text-slate-500 uppercase tracking-widest">Intervals</label>
+              <select className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={filters.intervalMethod} onChange={e => setFilters(f => ({...f, intervalMethod: e.target.value as IntervalMethod}))}>
+                {(['analytic', 'empirical', 'bootstrap'] as IntervalMethod[]).map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label className="text-[8px] font-black text-slate-500 uppercase tracking-widest">Reconciliation</label>
+              <select className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={filters.reconciliation} onChange={e => setFilters(f => ({...f, reconciliation: e.target.value as ReconciliationMethod}))}>
+                {Object.entries(RECONCILIATION_LABELS).map(([k, v]) => <option key={k} value={k}>{v}</option>)}
+              </select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label className="text-[8px] font-black text-slate-500 uppercase tracking-widest">Gap Fill</label>
+              <select className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={filters.defaultFillPolicy} onChange={e => setFilters(f => ({...f, defaultFillPolicy: e.target.value as FillPolicy}))}>
+                {(['zero', 'interpolate'] as FillPolicy[]).map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+            </div>
+
+            <div className="flex items-center justify-between p-2.5 bg-slate-900 rounded-xl border border-slate-800">
+              <div className="flex flex-col"><span className="text-[8px] font-black text-slate-500 uppercase">Class-Based Models</span><span className="text-[7px] text-slate-600 font-bold uppercase tracking-tighter">Model per ADI/CV² class</span></div>
+              <button onClick={() => setFilters(f => ({...f, classBasedModels: !f.classBasedModels}))} className={`relative inline-flex h-5 w-9 shrink-0 cursor-pointer items-center rounded-full transition-colors ${filters.classBasedModels ? 'bg-indigo-600' : 'bg-slate-800'}`}>
+                <span className={`pointer-events-none block h-3.5 w-3.5 rounded-full bg-white transition-transform ${filters.classBasedModels ? 'translate-x-4.5' : 'translate-x-0.5'}`} />
+              </button>
+            </div>
             
             <div className="pt-2">
               <div className="flex items-center justify-between mb-1">
@@ -575,6 +879,9 @@ const App: React.FC = () => {
                         <div key={k} className="p-2 rounded-xl bg-slate-950/50 border border-slate-800/50 hover:border-indigo-500/30 transition-all">
                           <p className="font-black text-indigo-400 uppercase text-[9px] mb-1">{k.split(' (')[0]}</p>
                           <p className="text-[9px] text-slate-400 leading-relaxed font-medium">{v}</p>
+                          {modelRuns[k as ForecastMethodology]?.fit?.label && (
+                            <p className="text-[8px] text-emerald-400 font-mono font-bold mt-1">Fitted: {modelRuns[k as ForecastMethodology].fit?.label}</p>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -584,10 +891,203 @@ const App: React.FC = () => {
               <select className="w-full p-1.5 bg-slate-900 border border-slate-800 rounded text-[10px] font-bold text-slate-200 outline-none" value={filters.methodology} onChange={e => setFilters(f => ({...f, methodology: e.target.value as ForecastMethodology}))}>
                 {Object.values(ForecastMethodology).map(m => <option key={m} value={m}>{m}</option>)}
               </select>
+              {filters.methodology === ForecastMethodology.ENSEMBLE && (
+                <div className="space-y-2 mt-2">
+                  <div className="flex items-center justify-between">
+                    <label className="text-[8px] font-black text-slate-500 uppercase tracking-widest">Weighting</label>
+                    <select className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={filters.ensembleWeighting} onChange={e => setFilters(f => ({...f, ensembleWeighting: e.target.value as EnsembleWeighting}))}>
+                      {(['mean', 'median', 'inverse-error'] as EnsembleWeighting[]).map(w => <option key={w} value={w}>{w}</option>)}
+                    </select>
+                  </div>
+                  <div className="flex justify-between text-[8px] font-black text-slate-500 uppercase tracking-widest"><span>Members (Top N)</span><span className="text-indigo-400">{filters.ensembleSize}</span></div>
+                  <input type="range" min="2" max="6" className="w-full accent-indigo-500 h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer" value={filters.ensembleSize} onChange={e => setFilters(f => ({...f, ensembleSize: Number(e.target.value)}))} />
+                </div>
+              )}
+              {(filters.methodology === ForecastMethodology.AUTO || filters.methodology === ForecastMethodology.ENSEMBLE) && (
+                <div className="flex items-center justify-between mt-2">
+                  <label className="text-[8px] font-black text-slate-500 uppercase tracking-widest">Selection Metric</label>
+                  <select className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={filters.selectionMetric} onChange={e => setFilters(f => ({...f, selectionMetric: e.target.value as SelectionMetric}))}>
+                    {Object.values(SelectionMetric).map(m => <option key={m} value={m}>{m}</option>)}
+                  </select>
+                </div>
+              )}
             </div>
           </div>
         </section>
 
+        <section className="space-y-2 pt-2 border-t border-slate-800">
+          <h3 className="text-[9px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-2"><History size={10}/> Backtest Design</h3>
+          <div className="space-y-2.5 p-3 bg-slate-950 rounded-xl border border-slate-800">
+            <div className="flex justify-between text-[8px] font-black text-slate-500 uppercase tracking-widest"><span>Origins</span><span className="text-indigo-400">{filters.backtestOrigins}</span></div>
+            <input type="range" min="1" max="12" className="w-full accent-indigo-500 h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer" value={filters.backtestOrigins} onChange={e => setFilters(f => ({...f, backtestOrigins: Number(e.target.value)}))} />
+            <div className="flex justify-between text-[8px] font-black text-slate-500 uppercase tracking-widest"><span>Max Lag</span><span className="text-indigo-400">{filters.backtestHorizon}{PERIOD_SUFFIX[filters.interval]}</span></div>
+            <input type="range" min="1" max="12" className="w-full accent-indigo-500 h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer" value={filters.backtestHorizon} onChange={e => setFilters(f => ({...f, backtestHorizon: Number(e.target.value)}))} />
+            <div className="grid grid-cols-2 gap-1.5 pt-1">
+              {(['expanding', 'sliding'] as BacktestWindow[]).map(w => (
+                <button key={w} onClick={() => setFilters(f => ({...f, backtestWindow: w}))} className={`py-1.5 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all ${filters.backtestWindow === w ? 'bg-indigo-600 text-white' : 'bg-slate-900 text-slate-500 hover:text-slate-300'}`}>
+                  {w} Window
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center justify-between p-2.5 bg-slate-900 rounded-xl border border-slate-800">
+              <div className="flex flex-col"><span className="text-[8px] font-black text-slate-500 uppercase">Bias Correction</span><span className="text-[7px] text-slate-600 font-bold uppercase tracking-tighter">Per series &amp; lag, shrunk</span></div>
+              <button onClick={() => setFilters(f => ({...f, biasCorrection: !f.biasCorrection}))} className={`relative inline-flex h-5 w-9 shrink-0 cursor-pointer items-center rounded-full transition-colors ${filters.biasCorrection ? 'bg-indigo-600' : 'bg-slate-800'}`}>
+                <span className={`pointer-events-none block h-3.5 w-3.5 rounded-full bg-white transition-transform ${filters.biasCorrection ? 'translate-x-4.5' : 'translate-x-0.5'}`} />
+              </button>
+            </div>
+          </div>
+        </section>
+
+        <section className="space-y-2 pt-2 border-t border-slate-800">
+          <h3 className="text-[9px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-2"><AlertTriangle size={10}/> Anomaly Detection</h3>
+          <div className="space-y-2.5 p-3 bg-slate-950 rounded-xl border border-slate-800">
+            <div className="flex items-center justify-between">
+              <label className="text-[8px] font-black text-slate-500 uppercase tracking-widest">Detector</label>
+              <select className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={filters.anomalyDetector} onChange={e => setFilters(f => ({...f, anomalyDetector: e.target.value as AnomalyDetector}))}>
+                {Object.entries(ANOMALY_DETECTOR_LABELS).map(([k, v]) => <option key={k} value={k}>{v}</option>)}
+              </select>
+            </div>
+            <div className="flex justify-between text-[8px] font-black text-slate-500 uppercase tracking-widest"><span>Threshold</span><span className="text-indigo-400">{filters.anomalyThreshold.toFixed(1)}σ</span></div>
+            <input type="range" min="2" max="6" step="0.5" className="w-full accent-indigo-500 h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer" value={filters.anomalyThreshold} onChange={e => setFilters(f => ({...f, anomalyThreshold: Number(e.target.value)}))} />
+            <div className="flex items-center justify-between p-2.5 bg-slate-900 rounded-xl border border-slate-800">
+              <div className="flex flex-col"><span className="text-[8px] font-black text-slate-500 uppercase">Apply Corrections</span><span className="text-[7px] text-slate-600 font-bold uppercase tracking-tighter">Accepted &amp; overridden only</span></div>
+              <button onClick={() => setFilters(f => ({...f, applyAnomalyCleaning: !f.applyAnomalyCleaning}))} className={`relative inline-flex h-5 w-9 shrink-0 cursor-pointer items-center rounded-full transition-colors ${filters.applyAnomalyCleaning ? 'bg-indigo-600' : 'bg-slate-800'}`}>
+                <span className={`pointer-events-none block h-3.5 w-3.5 rounded-full bg-white transition-transform ${filters.applyAnomalyCleaning ? 'translate-x-4.5' : 'translate-x-0.5'}`} />
+              </button>
+            </div>
+          </div>
+        </section>
+
+        <section className="space-y-2 pt-2 border-t border-slate-800">
+          <h3 className="text-[9px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-2"><Package size={10}/> New Product Analogs</h3>
+          <div className="space-y-2 p-3 bg-slate-950 rounded-xl border border-slate-800">
+            <div className="grid grid-cols-3 gap-1.5">
+              <select title="New item" className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftAnalog.sku} onChange={e => setDraftAnalog(d => ({...d, sku: e.target.value}))}>
+                {attributes.map(a => <option key={a.sku} value={a.sku}>{a.sku}</option>)}
+              </select>
+              <select title="Analog" className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftAnalog.analog} onChange={e => setDraftAnalog(d => ({...d, analog: e.target.value}))}>
+                {attributes.filter(a => a.sku !== draftAnalog.sku).map(a => <option key={a.sku} value={a.sku}>{a.sku}</option>)}
+              </select>
+              <input type="number" min="0" step="0.1" title="Scale" className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftAnalog.scale} onChange={e => setDraftAnalog(d => ({...d, scale: Number(e.target.value)}))} />
+            </div>
+            <input type="date" title="Launch date of the new item" className="w-full p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={attributes.find(a => a.sku === draftAnalog.sku)?.launchDate ?? ''} onChange={e => setAttributes(list => list.map(a => a.sku !== draftAnalog.sku ? a : { ...a, launchDate: e.target.value || undefined }))} />
+            <button disabled={draftAnalog.sku === draftAnalog.analog || draftAnalog.scale <= 0} onClick={() => setAttributes(list => list.map(a => a.sku !== draftAnalog.sku ? a : {
+              ...a, analogs: [...(a.analogs ?? []).filter(l => l.sku !== draftAnalog.analog), { sku: draftAnalog.analog, scale: draftAnalog.scale }]
+            }))} className="w-full py-1.5 bg-slate-900 border border-slate-800 rounded-lg text-[8px] font-black uppercase tracking-widest text-slate-400 hover:text-sky-400 hover:border-sky-500 transition-all flex items-center justify-center gap-1.5 disabled:opacity-50">
+              <Plus size={10}/> Link Analog
+            </button>
+            {attributes.flatMap(a => (a.analogs ?? []).map(l => (
+              <div key={`${a.sku}-${l.sku}`} className="flex items-center justify-between text-[9px] font-bold text-slate-400">
+                <span>{a.sku} ← {l.sku} ×{l.scale}{a.launchDate ? ` · launch ${a.launchDate}` : ''}</span>
+                <button onClick={() => setAttributes(list => list.map(x => x.sku !== a.sku ? x : { ...x, analogs: (x.analogs ?? []).filter(y => y.sku !== l.sku) }))} className="text-slate-600 hover:text-red-400"><Trash2 size={10}/></button>
+              </div>
+            )))}
+          </div>
+        </section>
+
+        <section className="space-y-2 pt-2 border-t border-slate-800">
+          <h3 className="text-[9px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-2"><History size={10}/> Lifecycle</h3>
+          <div className="space-y-2 p-3 bg-slate-950 rounded-xl border border-slate-800">
+            <p className="text-[8px] font-black text-slate-500 uppercase tracking-widest">Supersession (old → new)</p>
+            <div className="grid grid-cols-2 gap-1.5">
+              <select title="Old SKU" className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftSupersession.oldSku} onChange={e => setDraftSupersession(d => ({...d, oldSku: e.target.value}))}>
+                {attributes.map(a => <option key={a.sku} value={a.sku}>{a.sku}</option>)}
+              </select>
+              <select title="New SKU" className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftSupersession.newSku} onChange={e => setDraftSupersession(d => ({...d, newSku: e.target.value}))}>
+                {attributes.map(a => <option key={a.sku} value={a.sku}>{a.sku}</option>)}
+              </select>
+              <input type="date" title="Effective date" className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftSupersession.effectiveDate} onChange={e => setDraftSupersession(d => ({...d, effectiveDate: e.target.value}))} />
+              <input type="number" min="0" step="0.1" title="New units per old unit" className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftSupersession.ratio} onChange={e => setDraftSupersession(d => ({...d, ratio: Number(e.target.value)}))} />
+            </div>
+            <button disabled={draftSupersession.oldSku === draftSupersession.newSku || draftSupersession.ratio <= 0 || !draftSupersession.effectiveDate} onClick={() => setSupersessions(list => [...list.filter(x => x.oldSku !== draftSupersession.oldSku), { ...draftSupersession, id: `${Date.now()}` }])} className="w-full py-1.5 bg-slate-900 border border-slate-800 rounded-lg text-[8px] font-black uppercase tracking-widest text-slate-400 hover:text-sky-400 hover:border-sky-500 transition-all flex items-center justify-center gap-1.5 disabled:opacity-50">
+              <Plus size={10}/> Add Supersession
+            </button>
+            {supersessions.map(x => (
+              <div key={x.id} className="flex items-center justify-between text-[9px] font-bold text-slate-400">
+                <span>{x.oldSku} → {x.newSku} ×{x.ratio} · {x.effectiveDate}</span>
+                <button onClick={() => setSupersessions(list => list.filter(y => y.id !== x.id))} className="text-slate-600 hover:text-red-400"><Trash2 size={10}/></button>
+              </div>
+            ))}
+            <p className="text-[8px] font-black text-slate-500 uppercase tracking-widest pt-1">Phase-out (end of life)</p>
+            <div className="grid grid-cols-2 gap-1.5">
+              <select className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftPhaseOut.sku} onChange={e => setDraftPhaseOut(d => ({...d, sku: e.target.value}))}>
+                {attributes.map(a => <option key={a.sku} value={a.sku}>{a.sku}</option>)}
+              </select>
+              <input type="date" className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftPhaseOut.date} onChange={e => setDraftPhaseOut(d => ({...d, date: e.target.value}))} />
+            </div>
+            <button disabled={!draftPhaseOut.date} onClick={() => setAttributes(list => list.map(a => a.sku === draftPhaseOut.sku ? { ...a, endOfLifeDate: draftPhaseOut.date } : a))} className="w-full py-1.5 bg-slate-900 border border-slate-800 rounded-lg text-[8px] font-black uppercase tracking-widest text-slate-400 hover:text-sky-400 hover:border-sky-500 transition-all flex items-center justify-center gap-1.5 disabled:opacity-50">
+              <Plus size={10}/> Set End of Life
+            </button>
+            {attributes.filter(a => a.endOfLifeDate).map(a => (
+              <div key={a.sku} className="flex items-center justify-between text-[9px] font-bold text-slate-400">
+                <span>{a.sku} · EOL {a.endOfLifeDate}</span>
+                <button onClick={() => setAttributes(list => list.map(x => x.sku === a.sku ? { ...x, endOfLifeDate: undefined } : x))} className="text-slate-600 hover:text-red-400"><Trash2 size={10}/></button>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="space-y-2 pt-2 border-t border-slate-800">
+          <h3 className="text-[9px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-2"><Calendar size={10}/> Events &amp; Holidays</h3>
+          <div className="space-y-2 p-3 bg-slate-950 rounded-xl border border-slate-800">
+            <div className="flex items-center justify-between p-2.5 bg-slate-900 rounded-xl border border-slate-800">
+              <div className="flex flex-col"><span className="text-[8px] font-black text-slate-500 uppercase">Retail Holidays</span><span className="text-[7px] text-slate-600 font-bold uppercase tracking-tighter">New Year, Easter, Black Friday, Christmas</span></div>
+              <button title="Off by default for monthly buckets, where the seasonal terms already carry fixed-date holidays" onClick={() => setIncludeHolidays(!holidaysOn)} className={`relative inline-flex h-5 w-9 shrink-0 cursor-pointer items-center rounded-full transition-colors ${holidaysOn ? 'bg-indigo-600' : 'bg-slate-800'}`}>
+                <span className={`pointer-events-none block h-3.5 w-3.5 rounded-full bg-white transition-transform ${holidaysOn ? 'translate-x-4.5' : 'translate-x-0.5'}`} />
+              </button>
+            </div>
+            <input type="text" title="Event name; occurrences with the same name share one effect" className="w-full p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftEvent.name} onChange={e => setDraftEvent(d => ({...d, name: e.target.value}))} />
+            <div className="grid grid-cols-2 gap-1.5">
+              <input type="date" title="First day" className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftEvent.start} onChange={e => setDraftEvent(d => ({...d, start: e.target.value}))} />
+              <input type="date" title="Last day" className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftEvent.end} onChange={e => setDraftEvent(d => ({...d, end: e.target.value}))} />
+            </div>
+            <label className="flex items-center gap-2 text-[8px] font-black text-slate-500 uppercase tracking-widest">
+              <input type="checkbox" className="accent-indigo-500" checked={draftEvent.recurring} onChange={e => setDraftEvent(d => ({...d, recurring: e.target.checked}))} /> Repeats every year
+            </label>
+            <button disabled={!draftEvent.name.trim() || !draftEvent.start || !draftEvent.end || (!draftEvent.recurring && draftEvent.end < draftEvent.start)} onClick={() => setCustomEvents(list => [...list, { ...draftEvent, name: draftEvent.name.trim(), id: `${Date.now()}` }])} className="w-full py-1.5 bg-slate-900 border border-slate-800 rounded-lg text-[8px] font-black uppercase tracking-widest text-slate-400 hover:text-sky-400 hover:border-sky-500 transition-all flex items-center justify-center gap-1.5 disabled:opacity-50">
+              <Plus size={10}/> Add Event
+            </button>
+            {customEvents.map(ev => (
+              <div key={ev.id} className="flex items-center justify-between text-[9px] font-bold text-slate-400">
+                <span>{ev.name} · {ev.start} → {ev.end}{ev.recurring && ' · yearly'}</span>
+                <button onClick={() => setCustomEvents(list => list.filter(x => x.id !== ev.id))} className="text-slate-600 hover:text-red-400"><Trash2 size={10}/></button>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="space-y-2 pt-2 border-t border-slate-800">
+          <h3 className="text-[9px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-2"><TrendingUp size={10}/> Driver Scenarios</h3>
+          <div className="space-y-2 p-3 bg-slate-950 rounded-xl border border-slate-800">
+            <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest">
+              {driverRecords.length > 0 ? `${formatNumber(driverRecords.length)} driver rows loaded` : 'Upload a driver file to enable regressors'}
+            </p>
+            <div className="grid grid-cols-2 gap-1.5">
+              <select className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftDriverScenario.driver} onChange={e => setDraftDriverScenario(d => ({...d, driver: e.target.value as DriverKey}))}>
+                {DRIVER_KEYS.map(k => <option key={k} value={k}>{DRIVER_LABELS[k]}</option>)}
+              </select>
+              <select className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftDriverScenario.sku} onChange={e => setDraftDriverScenario(d => ({...d, sku: e.target.value}))}>
+                <option value="ALL">All SKUs</option>
+                {SKUS.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </div>
+            <div className="grid grid-cols-3 gap-1.5">
+              <input type="number" min="1" title="From period" className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftDriverScenario.startPeriod} onChange={e => setDraftDriverScenario(d => ({...d, startPeriod: Number(e.target.value)}))} />
+              <input type="number" min="1" title="To period" className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftDriverScenario.endPeriod} onChange={e => setDraftDriverScenario(d => ({...d, endPeriod: Number(e.target.value)}))} />
+              <input type="number" step="any" title="Value" className="p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={draftDriverScenario.value} onChange={e => setDraftDriverScenario(d => ({...d, value: Number(e.target.value)}))} />
+            </div>
+            <button onClick={() => setDriverScenarios(s => [...s, { ...draftDriverScenario, id: `${Date.now()}` }])} className="w-full py-1.5 bg-slate-900 border border-slate-800 rounded-lg text-[8px] font-black uppercase tracking-widest text-slate-400 hover:text-sky-400 hover:border-sky-500 transition-all flex items-center justify-center gap-1.5">
+              <Plus size={10}/> Add Assumption
+            </button>
+            {driverScenarios.map(s => (
+              <div key={s.id} className="flex items-center justify-between text-[9px] font-bold text-slate-400">
+                <span>{DRIVER_LABELS[s.driver]} = {s.value} · {s.sku} · P{s.startPeriod}–{s.endPeriod}</span>
+                <button onClick={() => setDriverScenarios(list => list.filter(x => x.id !== s.id))} className="text-slate-600 hover:text-red-400"><Trash2 size={10}/></button>
+              </div>
+            ))}
+          </div>
+        </section>
+
         <section className="space-y-2 pt-2 border-t border-slate-800">
           <h3 className="text-[9px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-2"><ShieldAlert size={10}/> Resiliency Simulator</h3>
           <div className="p-2.5 bg-slate-950 rounded-xl border border-slate-800 space-y-3">
@@ -603,6 +1103,22 @@ const App: React.FC = () => {
           <button onClick={handleRunAnalysis} disabled={isLoading} className={`w-full py-3.5 rounded-2xl flex items-center justify-center gap-3 transition-all ${isLoading ? 'bg-slate-800 text-slate-500' : 'bg-indigo-600 hover:bg-indigo-500 text-white font-black text-[11px] uppercase tracking-widest shadow-2xl shadow-indigo-600/10'}`}>
             {isLoading ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} fill="currentColor" />} {isLoading ? "Syncing..." : "Run Analysis"}
           </button>
+          {isForecasting && (
+            <div className="mt-2 space-y-1">
+              <div className="flex justify-between text-[8px] font-black text-slate-500 uppercase tracking-widest">
+                <span className="flex items-center gap-1.5"><Loader2 size={9} className="animate-spin" /> Forecasting</span>
+                <span>{formatNumber(forecastProgress.done)} / {formatNumber(forecastProgress.total)} · {formatNumber(forecastProgress.cached)} cached</span>
+              </div>
+              <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${forecastProgress.total > 0 ? (forecastProgress.done / forecastProgress.total) * 100 : 0}%` }} />
+              </div>
+            </div>
+          )}
+          {forecastError && (
+            <p className="mt-2 flex items-start gap-1.5 text-[9px] font-bold text-red-400">
+              <AlertTriangle size={10} className="shrink-0 mt-0.5" /> Forecast run failed, showing the last results: {forecastError}
+            </p>
+          )}
         </div>
       </aside>
 
@@ -668,15 +1184,28 @@ const App: React.FC = () => {
                 </section>
                 <section className="bg-slate-900 p-6 rounded-[2.5rem] border border-slate-800 shadow-2xl relative">
                   <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
-                    <h2 className="text-lg font-black text-white uppercase tracking-tighter">Consolidated Demand Trend</h2>
-                    <div className="flex items-center gap-3 px-4 py-1.5 bg-indigo-600/10 border border-indigo-500/20 rounded-full">
-                      <Zap size={12} className="text-indigo-400" />
-                      <span className="text-[9px] font-black uppercase text-indigo-400 tracking-widest">Model: {committedSettings.filters.methodology.split(' (')[0]}</span>
+                    <div>
+                      <h2 className="text-lg font-black text-white uppercase tracking-tighter">Consolidated Demand Trend</h2>
+                      {committedSettings.filters.methodology === ForecastMethodology.AUTO && (
+                        <p className="text-[9px] text-slate-500 font-bold mt-1">{modelSelection.reason}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <select className="px-3 py-1.5 bg-slate-950 border border-slate-800 rounded-full text-[9px] font-black uppercase tracking-widest text-slate-300 outline-none" value={drillSku} onChange={e => setDrillSku(e.target.value)}>
+                        <option value="ALL">All SKUs (Roll-Up)</option>
+                        {skuForecasts.map(s => <option key={s.sku} value={s.sku}>{s.sku}</option>)}
+                      </select>
+                      <div className="flex items-center gap-3 px-4 py-1.5 bg-indigo-600/10 border border-indigo-500/20 rounded-full">
+                        <Zap size={12} className="text-indigo-400" />
+                        <span className="text-[9px] font-black uppercase text-indigo-400 tracking-widest">
+                          Model: {committedSettings.filters.methodology === ForecastMethodology.AUTO ? 'Auto → ' : ''}{(drillSku === 'ALL' ? effectiveMethod : nodeMethods.get(`sku:${drillSku}`) ?? effectiveMethod).split(' (')[0]}
+                        </span>
+                      </div>
                     </div>
                   </div>
                   <div className="h-[400px]">
                     <ResponsiveContainer width="100%" height="100%">
-                      <ComposedChart data={futureForecast} margin={{ left: 10, right: 10, top: 20 }}>
+                      <ComposedChart data={trendChartData} margin={{ left: 10, right: 10, top: 20 }}>
                         <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#1e293b" />
                         <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{fontSize: 9, fill: '#64748b', fontWeight: 700}} />
                         <YAxis axisLine={false} tickLine={false} tickFormatter={(val) => formatNumber(val)} tick={{fontSize: 9, fill: '#64748b', fontWeight: 700}} />
@@ -689,11 +1218,264 @@ const App: React.FC = () => {
                             <Area type="monotone" dataKey="lowerBound" name="Lower Bound Quantity" stroke="none" fill="#ef4444" fillOpacity={0.08} />
                           </>
                         )}
+                        <Line type="monotone" dataKey="quantiles.P10" name="P10" stroke="#f59e0b" strokeWidth={1.5} strokeDasharray="4 4" dot={false} />
+                        <Line type="monotone" dataKey="quantiles.P90" name="P90" stroke="#f59e0b" strokeWidth={1.5} strokeDasharray="4 4" dot={false} />
+                        {committedSettings.filters.biasCorrection && (
+                          <Line type="monotone" dataKey="uncorrectedForecast" name="Uncorrected Forecast" stroke="#94a3b8" strokeWidth={2} strokeDasharray="6 4" dot={false} />
+                        )}
                         <Line type="monotone" dataKey="scenarioForecast" name="Forecasted Quantity" stroke="#ef4444" strokeWidth={4} dot={{r: 4, fill: '#ef4444'}} />
                       </ComposedChart>
                     </ResponsiveContainer>
                   </div>
                 </section>
+                {displayedDrivers && displayedDrivers.length > 0 && (
+                  <section className="bg-slate-900 p-6 rounded-[2.5rem] border border-slate-800 shadow-2xl">
+                    <h3 className="text-sm font-black text-white uppercase tracking-widest mb-1">Driver Effects</h3>
+                    <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest mb-4">{drillSku === 'ALL' ? 'Total' : drillSku} · regression with ARIMA errors</p>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                      {displayedDrivers.map(d => (
+                        <div key={d.driver} className="p-4 bg-slate-950 rounded-2xl border border-slate-800">
+                          <p className="text-[9px] font-black uppercase text-slate-400 tracking-widest mb-2">{DRIVER_LABELS[d.driver]}</p>
+                          <p className="text-xl font-black text-sky-400">{d.coefficient >= 0 ? '+' : ''}{d.coefficient.toFixed(2)}</p>
+                          <p className="text-[9px] font-bold text-slate-500 mt-1">t = {d.tStat.toFixed(2)}{Math.abs(d.tStat) < 2 && ' (weak)'}</p>
+                          <p className="text-[9px] font-bold text-slate-300 mt-1">
+                            {d.driver === 'promo' ? `Lift ${(d.elasticity * 100).toFixed(1)}%` : `Elasticity ${d.elasticity.toFixed(2)}`}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  </section>
+                )}
+                {displayedComponents && (
+                  <section className="bg-slate-900 p-6 rounded-[2.5rem] border border-slate-800 shadow-2xl">
+                    <h3 className="text-sm font-black text-white uppercase tracking-widest mb-1">Model Components</h3>
+                    <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest mb-4">{drillSku === 'ALL' ? 'Total' : drillSku} · {displayedRun?.fit?.label}</p>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      {([
+                        { key: 'trend', title: 'Trend', color: '#6366f1' },
+                        { key: 'seasonal', title: 'Seasonality', color: '#10b981' },
+                        { key: 'events', title: 'Events', color: '#f59e0b' }
+                      ] as const).map(c => (
+                        <div key={c.key} className="p-4 bg-slate-950 rounded-2xl border border-slate-800">
+                          <p className="text-[9px] font-black uppercase text-slate-400 tracking-widest mb-2">
+                            {c.title}{c.key === 'trend' && ` · ${displayedComponents.changepoints.length} changepoints`}
+                          </p>
+                          <div className="h-[160px]">
+                            <ResponsiveContainer width="100%" height="100%">
+                              <ComposedChart data={displayedComponents.data}>
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#1e293b" />
+                                <XAxis dataKey="date" tick={{fontSize: 8}} />
+                                <YAxis tickFormatter={(val) => formatNumber(val)} tick={{fontSize: 8}} width={40} />
+                                <Tooltip contentStyle={{backgroundColor: '#0f172a', borderRadius: '12px'}} formatter={(val: number) => [formatNumber(val), c.title]} />
+                                <ReferenceLine x={displayedComponents.origin} stroke="#475569" strokeDasharray="2 2" />
+                                {c.key === 'trend' && displayedComponents.changepoints.map(cp => (
+                                  <ReferenceLine key={cp.index} x={cp.date} stroke="#f43f5e" strokeDasharray="3 3" />
+                                ))}
+                                {c.key === 'events'
+                                  ? <Bar dataKey={c.key} fill={c.color} radius={[2,2,0,0]} />
+                                  : <Line type="monotone" dataKey={c.key} stroke={c.color} strokeWidth={2} dot={false} />}
+                              </ComposedChart>
+                            </ResponsiveContainer>
+                          </div>
+                          {c.key === 'trend' && displayedComponents.changepoints.length > 0 && (
+                            <p className="text-[8px] font-mono text-slate-500 mt-2">
+                              {displayedComponents.changepoints.map(cp => `${cp.date} ${cp.delta >= 0 ? '+' : ''}${cp.delta.toFixed(1)}/period`).join(' · ')}
+                            </p>
+                          )}
+                          {c.key === 'events' && (
+                            <p className="text-[8px] font-mono text-slate-500 mt-2">
+                              {displayedComponents.eventEffects.length === 0 ? 'No events in the history' : displayedComponents.eventEffects.map(e => `${e.name} ${e.effect >= 0 ? '+' : ''}${formatNumber(e.effect)}`).join(' · ')}
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </section>
+                )}
+                {decompositionView && (
+                  <section className="bg-slate-900 p-6 rounded-[2.5rem] border border-slate-800 shadow-2xl">
+                    <div className="flex justify-between items-start mb-4">
+                      <div>
+                        <h3 className="text-sm font-black text-white uppercase tracking-widest mb-1">Forecast Decomposition</h3>
+                        <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest">
+                          {drillSku === 'ALL' ? 'Total' : drillSku} · {formatNumber(decompositionView.total)} planned
+                          {decompositionView.priorValue !== undefined && decompositionView.priorValue > 0 && (
+                            ` · ${((decompositionView.total / decompositionView.priorValue - 1) * 100 >= 0 ? '+' : '')}${((decompositionView.total / decompositionView.priorValue - 1) * 100).toFixed(1)}% vs ${decompositionView.priorDate} (${formatNumber(decompositionView.priorValue)})`
+                          )}
+                        </p>
+                      </div>
+                      <select className="p-1 bg-slate-950 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={decompositionView.date} onChange={e => setDecompositionDate(e.target.value)}>
+                        {decompositionView.dates.map((d: string) => <option key={d} value={d}>{d}</option>)}
+                      </select>
+                    </div>
+                    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+                      <div className="lg:col-span-8 h-[260px]">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={decompositionView.steps}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#1e293b" />
+                            <XAxis dataKey="name" tick={{fontSize: 8}} interval={0} />
+                            <YAxis tickFormatter={(val) => formatNumber(val)} tick={{fontSize: 9}} />
+                            <Tooltip
+                              contentStyle={{backgroundColor: '#0f172a', borderRadius: '12px'}}
+                              formatter={(val: number, name: string, entry: TooltipPayloadEntry) => [formatNumber(entry.payload.value), entry.payload.name]}
+                            />
+                            <Bar dataKey="offset" stackId="waterfall" fill="transparent" tooltipType="none" />
+                            <Bar dataKey="size" stackId="waterfall" radius={[4,4,0,0]}>
+                              {decompositionView.steps.map(step => (
+                                <Cell key={step.key} fill={step.total ? '#6366f1' : step.value >= 0 ? '#10b981' : '#ef4444'} />
+                              ))}
+                            </Bar>
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+                      <div className="lg:col-span-4 space-y-2">
+                        {decompositionView.steps.map(step => (
+                          <div key={step.key} className={`flex justify-between items-center p-2 rounded-xl border ${step.total ? 'bg-indigo-600/10 border-indigo-500/30' : 'bg-slate-950 border-slate-800'}`}>
+                            <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">{step.name}</span>
+                            <span className={`text-[10px] font-black ${step.total ? 'text-indigo-400' : step.value >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                              {!step.total && step.value >= 0 ? '+' : ''}{formatNumber(Math.round(step.value))}
+                              <span className="text-slate-500 ml-1">{decompositionView.total > 0 ? `${((step.value / decompositionView.total) * 100).toFixed(0)}%` : ''}</span>
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </section>
+                )}
+                {overrideView.sku && (
+                  <section className="bg-slate-900 p-6 rounded-[2.5rem] border border-slate-800 shadow-2xl">
+                    <div className="flex justify-between items-start mb-4">
+                      <div>
+                        <h3 className="text-sm font-black text-white uppercase tracking-widest mb-1">Forecast Overrides</h3>
+                        <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest">
+                          {overrideView.sku} · {overrideView.overrides.filter(o => o.status === 'approved').length} approved · {overrideView.overrides.filter(o => o.status !== 'approved').length} in review · plan follows the approved final layer
+                        </p>
+                      </div>
+                      {drillSku === 'ALL' && (
+                        <select className="p-1 bg-slate-950 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={overrideView.sku} onChange={e => setOverrideSkuChoice(e.target.value)}>
+                          {skuForecasts.map(f => <option key={f.sku} value={f.sku}>{f.sku}</option>)}
+                        </select>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+                      <div className="lg:col-span-7 overflow-x-auto max-h-[340px] no-scrollbar">
+                        <table className="w-full text-left">
+                          <thead>
+                            <tr className="text-[8px] font-black text-slate-500 uppercase tracking-widest border-b border-slate-800">
+                              <th className="py-2 pr-4">Period</th>
+                              {FORECAST_LAYERS.map(layer => <th key={layer} className="py-2 pr-4 text-right">{LAYER_LABELS[layer]}</th>)}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {overrideView.points.map(p => (
+                              <tr key={p.period ?? p.date} className={`text-[10px] font-bold border-b border-slate-800/50 ${(p.period ?? p.date) === overrideView.date ? 'text-indigo-300' : 'text-slate-300'}`}>
+                                <td className="py-2 pr-4 text-slate-500">{p.period ?? p.date}</td>
+                                {FORECAST_LAYERS.map(layer => {
+                                  const override = layer === 'statistical' ? undefined : overrideView.byId.get(overrideId(layer, overrideView.sku!, p.period ?? p.date));
+                                  const value = p.layers?.[layer] ?? p.forecast;
+                                  return (
+                                    <td key={layer} className={`py-2 pr-4 text-right ${layer === 'statistical' ? '' : 'cursor-pointer hover:text-indigo-400'} ${layer === 'final' ? 'font-black' : ''}`}
+                                      onClick={() => layer !== 'statistical' && setDraftOverride(d => ({ ...d, layer, date: p.period ?? p.date, ...(override ? { mode: override.mode, value: override.value, reason: override.reason, note: override.note ?? '' } : {}) }))}>
+                                      <span className={value !== p.layers?.statistical ? 'text-emerald-400' : ''}>{formatNumber(value)}</span>
+                                      {override && override.status !== 'approved' && <span className="block text-[8px] text-orange-400 uppercase">{describeOverride(override)} · {override.status}</span>}
+                                    </td>
+                                  );
+                                })}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      <div className="lg:col-span-5 space-y-4">
+                        <div className="p-4 bg-slate-950 rounded-2xl border border-slate-800 space-y-2">
+                          <div className="grid grid-cols-2 gap-2">
+                            <select className="p-2 bg-slate-900 border border-slate-800 rounded-lg text-[10px] font-bold text-slate-300 outline-none" value={draftOverride.layer} onChange={e => setDraftOverride(d => ({ ...d, layer: e.target.value as OverrideLayer }))}>
+                              {OVERRIDE_LAYERS.map(layer => <option key={layer} value={layer}>{LAYER_LABELS[layer]}</option>)}
+                            </select>
+                            <select className="p-2 bg-slate-900 border border-slate-800 rounded-lg text-[10px] font-bold text-slate-300 outline-none" value={overrideView.date ?? ''} onChange={e => setDraftOverride(d => ({ ...d, date: e.target.value }))}>
+                              {overrideView.dates.map(d => <option key={d} value={d}>{d}</option>)}
+                            </select>
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <div className="flex bg-slate-900 border border-slate-800 rounded-lg p-0.5">
+                              {(['percent', 'absolute'] as OverrideMode[]).map(mode => (
+                                <button key={mode} onClick={() => setDraftOverride(d => ({ ...d, mode }))} className={`flex-1 py-1.5 rounded-md text-[9px] font-black uppercase tracking-widest ${draftOverride.mode === mode ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>{mode === 'percent' ? '% Adj.' : 'Units'}</button>
+                              ))}
+                            </div>
+                            <input type="number" className="p-2 bg-slate-900 border border-slate-800 rounded-lg text-[10px] font-bold text-slate-200 outline-none" value={draftOverride.value} onChange={e => setDraftOverride(d => ({ ...d, value: Number(e.target.value) }))} />
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <select className="p-2 bg-slate-900 border border-slate-800 rounded-lg text-[10px] font-bold text-slate-300 outline-none" value={draftOverride.reason} onChange={e => setDraftOverride(d => ({ ...d, reason: e.target.value as OverrideReason }))}>
+                              {(Object.keys(OVERRIDE_REASONS) as OverrideReason[]).map(reason => <option key={reason} value={reason}>{OVERRIDE_REASONS[reason]}</option>)}
+                            </select>
+                            <input type="text" placeholder="Author" className="p-2 bg-slate-900 border border-slate-800 rounded-lg text-[10px] font-bold text-slate-200 outline-none" value={overrideAuthor} onChange={e => setOverrideAuthor(e.target.value)} />
+                          </div>
+                          <input type="text" placeholder="Note (optional)" className="w-full p-2 bg-slate-900 border border-slate-800 rounded-lg text-[10px] font-bold text-slate-200 outline-none" value={draftOverride.note} onChange={e => setDraftOverride(d => ({ ...d, note: e.target.value }))} />
+                          <button onClick={handleSaveOverride} className="w-full py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-[9px] font-black uppercase tracking-widest flex items-center justify-center gap-2"><Plus size={12}/> Save Draft</button>
+                        </div>
+                        {overrideView.overrides.length > 0 && (
+                          <div className="space-y-1.5 max-h-[160px] overflow-y-auto no-scrollbar">
+                            {overrideView.overrides.map(o => (
+                              <div key={o.id} className="flex items-center justify-between gap-2 p-2 bg-slate-950 rounded-xl border border-slate-800">
+                                <div className="min-w-0">
+                                  <p className="text-[9px] font-black text-slate-300 uppercase tracking-widest truncate">{LAYER_LABELS[o.layer]} · {o.date} · {describeOverride(o)}</p>
+                                  <p className="text-[8px] font-bold text-slate-500 truncate">{OVERRIDE_REASONS[o.reason]}{o.note ? ` — ${o.note}` : ''} · {o.author}</p>
+                                </div>
+                                <div className="flex items-center gap-1 shrink-0">
+                                  <span className={`text-[8px] font-black uppercase tracking-widest mr-1 ${o.status === 'approved' ? 'text-emerald-400' : o.status === 'submitted' ? 'text-orange-400' : 'text-slate-500'}`}>{o.status}</span>
+                                  {o.status === 'draft' && <button title="Submit for approval" onClick={() => setOverrideLog((log: OverrideLog) => setOverrideStatus(log, o.id, 'submitted', overrideAuthor))} className="p-1 rounded bg-slate-900 text-slate-500 hover:text-orange-400"><ArrowUpRight size={10}/></button>}
+                                  {o.status === 'submitted' && <button title="Approve" onClick={() => setOverrideLog((log: OverrideLog) => setOverrideStatus(log, o.id, 'approved', overrideAuthor))} className="p-1 rounded bg-slate-900 text-slate-500 hover:text-emerald-400"><Check size={10}/></button>}
+                                  {o.status !== 'draft' && <button title="Return to draft" onClick={() => setOverrideLog((log: OverrideLog) => setOverrideStatus(log, o.id, 'draft', overrideAuthor))} className="p-1 rounded bg-slate-900 text-slate-500 hover:text-red-400"><X size={10}/></button>}
+                                  <button title="Delete" onClick={() => setOverrideLog((log: OverrideLog) => removeOverride(log, o.id, overrideAuthor))} className="p-1 rounded bg-slate-900 text-slate-600 hover:text-red-400"><Trash2 size={10}/></button>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {overrideView.audit.length > 0 && (
+                          <div>
+                            <p className="text-[8px] font-black text-slate-500 uppercase tracking-widest mb-1.5 flex items-center gap-1.5"><History size={10}/> Audit Trail</p>
+                            {overrideView.audit.map((e, i) => (
+                              <p key={i} className="text-[8px] font-bold text-slate-500 py-0.5">
+                                <span className="text-slate-400">{new Date(e.at).toLocaleString()}</span> · {e.author} {e.action} {LAYER_LABELS[e.overrideId.split('|')[0] as OverrideLayer]} {e.overrideId.split('|')[2]} ({e.detail})
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </section>
+                )}
+                <section className="bg-slate-900 p-6 rounded-[2.5rem] border border-slate-800 shadow-2xl">
+                  <h3 className="text-sm font-black text-white uppercase tracking-widest mb-4">SKU Breakdown</h3>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                      <thead>
+                        <tr className="text-[8px] font-black text-slate-500 uppercase tracking-widest border-b border-slate-800">
+                          <th className="py-2 pr-4">SKU</th><th className="py-2 pr-4">Category</th><th className="py-2 pr-4">Model</th><th className="py-2 pr-4">Fitted</th>
+                          <th className="py-2 pr-4 text-right">Horizon Demand</th><th className="py-2 pr-4 text-right">Safety Stock</th><th className="py-2 pr-4 text-right">Reorder Point</th><th className="py-2 text-right">End Stock</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {skuForecasts.map(s => {
+                          const future = s.points.filter(p => p.isForecast);
+                          return (
+                            <tr key={s.sku} onClick={() => setDrillSku(s.sku)} className={`text-[10px] font-bold border-b border-slate-800/50 cursor-pointer hover:bg-slate-800/40 ${drillSku === s.sku ? 'text-indigo-300' : 'text-slate-300'}`}>
+                              <td className="py-2 pr-4 font-black">{s.sku}</td>
+                              <td className="py-2 pr-4 text-slate-500">{s.category}</td>
+                              <td className="py-2 pr-4 text-[9px]" title={seriesSelections.get(`sku:${s.sku}`)?.reason}>{s.method.split(' (')[0]}</td>
+                              <td className="py-2 pr-4 font-mono text-[9px] text-emerald-400">{s.label ?? '—'}</td>
+                              <td className="py-2 pr-4 text-right">{formatNumber(future.reduce((sum, p) => sum + (p.scenarioForecast ?? p.forecast), 0))}</td>
+                              <td className="py-2 pr-4 text-right">{formatNumber(future[0]?.safetyStock || 0)}</td>
+                              <td className="py-2 pr-4 text-right">{formatNumber(future[0]?.reorderPoint || 0)}</td>
+                              <td className={`py-2 text-right ${(future[future.length - 1]?.projectedInventory ?? 0) < 0 ? 'text-red-400' : ''}`}>{formatNumber(future[future.length - 1]?.projectedInventory ?? 0)}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </section>
               </div>
             )}
 
@@ -729,16 +1511,25 @@ const App: React.FC = () => {
             {activeTab === 'quality' && (
               <div className="space-y-6 animate-in fade-in duration-500">
                 <section className="grid grid-cols-1 md:grid-cols-4 gap-4">
-                  <MetricsCard label="Accuracy (Backtest)" value={`${backtestResults.metrics?.accuracy.toFixed(1)}%`} description="Confidence against 6M holdout" />
-                  <MetricsCard label="MAPE" value={`${backtestResults.metrics?.mape.toFixed(1)}%`} description="Mean Absolute Percentage Error" />
-                  <MetricsCard label="RMSE" value={formatNumber(backtestResults.metrics?.rmse || 0)} description="Root Mean Square Error" />
-                  <MetricsCard label="Bias Score" value={`${(backtestResults.metrics?.bias || 0).toFixed(1)}%`} description="Historical over/under skew" trend={backtestResults.metrics?.bias! > 0 ? "up" : "down"} />
+                  <MetricsCard label="Accuracy (Backtest)" value={`${backtestResults.metrics?.accuracy.mean.toFixed(1)}%`} description={`±${(backtestResults.metrics?.accuracy.std || 0).toFixed(1)} pts across ${backtestResults.originCount} origins`} />
+                  <MetricsCard label="MAPE" value={`${(backtestResults.metrics?.mape.mean || 0).toFixed(1)}%`} description={`Mean of per-period % errors ±${(backtestResults.metrics?.mape.std || 0).toFixed(1)}`} />
+                  <MetricsCard label="WAPE" value={`${(backtestResults.metrics?.wape.mean || 0).toFixed(1)}%`} description={`Total error over total demand ±${(backtestResults.metrics?.wape.std || 0).toFixed(1)}`} />
+                  <MetricsCard label="sMAPE" value={`${(backtestResults.metrics?.smape.mean || 0).toFixed(1)}%`} description={`Symmetric % error, robust to low volumes ±${(backtestResults.metrics?.smape.std || 0).toFixed(1)}`} />
+                  <MetricsCard label="MASE" value={(backtestResults.metrics?.mase.mean || 0).toFixed(2)} description={`vs seasonal naive · below 1 beats it ±${(backtestResults.metrics?.mase.std || 0).toFixed(2)}`} trend={(backtestResults.metrics?.mase.mean || 0) < 1 ? "up" : "down"} />
+                  <MetricsCard label="RMSE" value={formatNumber(backtestResults.metrics?.rmse.mean || 0)} description={`Root Mean Square Error ±${formatNumber(backtestResults.metrics?.rmse.std || 0)}`} />
+                  <MetricsCard label="Bias Score" value={`${(backtestResults.metrics?.bias.mean || 0).toFixed(1)}%`} description={`Historical over/under skew ±${(backtestResults.metrics?.bias.std || 0).toFixed(1)}`} trend={(backtestResults.metrics?.bias.mean || 0) > 0 ? "up" : "down"} />
+                  <MetricsCard label="Tracking Signal" value={(backtestResults.metrics?.trackingSignal.mean || 0).toFixed(2)} description={Math.abs(backtestResults.metrics?.trackingSignal.mean || 0) > 4 ? 'Outside ±4 · persistent bias' : 'Within ±4 · no persistent bias'} trend={Math.abs(backtestResults.metrics?.trackingSignal.mean || 0) > 4 ? "down" : "neutral"} />
+                  <MetricsCard label="Forecast Value Added" value={`${(backtestResults.metrics?.fva.mean || 0) >= 0 ? '+' : ''}${(backtestResults.metrics?.fva.mean || 0).toFixed(1)} pts`} description={`WAPE saved vs naive forecast ±${(backtestResults.metrics?.fva.std || 0).toFixed(1)}`} trend={(backtestResults.metrics?.fva.mean || 0) >= 0 ? "up" : "down"} />
+                  <MetricsCard label="MAD" value={formatNumber(backtestResults.metrics?.mad.mean || 0)} description={`Mean absolute deviation ±${formatNumber(backtestResults.metrics?.mad.std || 0)}`} />
+                  <MetricsCard label="Holding Cost Risk" value={`$${formatNumber(backtestResults.metrics?.holdingCostRisk.mean || 0)}`} description="Over-forecast units at unit cost, per origin" />
+                  <MetricsCard label="Stockout Revenue Risk" value={`$${formatNumber(backtestResults.metrics?.stockoutRevenueRisk.mean || 0)}`} description="Under-forecast units at selling price, per origin" />
                 </section>
                 
                 <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
                   <section className="lg:col-span-8 bg-slate-900 p-8 rounded-[2.5rem] border border-slate-800 shadow-2xl">
                     <div className="flex justify-between items-center mb-6">
-                      <h3 className="text-sm font-black text-white uppercase tracking-widest">Historical Model Backtesting (6M Split)</h3>
+                      <h3 className="text-sm font-black text-white uppercase tracking-widest">Historical Model Backtesting (Latest Origin)</h3>
+                      <span className="text-[9px] font-black uppercase text-slate-500 tracking-widest">{backtestResults.originCount} {committedSettings.filters.backtestWindow} origins</span>
                     </div>
                     <div className="h-[350px]">
                       <ResponsiveContainer width="100%" height="100%">
@@ -761,13 +1552,21 @@ const App: React.FC = () => {
                   <section className="lg:col-span-4 flex flex-col gap-6">
                     <div className="bg-slate-900 p-6 rounded-[2.5rem] border border-slate-800 shadow-2xl flex-1">
                        <h3 className="text-[10px] font-black text-white uppercase tracking-widest mb-4">Methodology Benchmark</h3>
+                       {committedSettings.filters.methodology === ForecastMethodology.AUTO && (
+                         <div className="mb-4 p-3 rounded-xl bg-emerald-500/10 border border-emerald-500/20">
+                           <p className="text-[9px] font-black uppercase text-emerald-400 mb-1">Auto Selected: {modelSelection.method.split(' (')[0]}</p>
+                           <p className="text-[9px] text-slate-400 font-medium leading-relaxed">{modelSelection.reason}</p>
+                         </div>
+                       )}
                        <div className="space-y-3">
                          {backtestResults.modelComparison.sort((a,b)=>b.accuracy-a.accuracy).map(m => (
-                           <div key={m.method} className={`p-3 rounded-xl border ${m.method === committedSettings.filters.methodology ? 'bg-indigo-600/10 border-indigo-500/30' : 'bg-slate-950 border-slate-800'}`}>
+                           <div key={m.method} className={`p-3 rounded-xl border ${m.method === effectiveMethod ? 'bg-indigo-600/10 border-indigo-500/30' : 'bg-slate-950 border-slate-800'}`}>
                              <div className="flex justify-between items-center mb-1">
                                <span className="text-[9px] font-black uppercase text-slate-300">{m.method.split(' (')[0]}</span>
-                               <span className="text-[10px] font-black text-indigo-400">{m.accuracy.toFixed(1)}%</span>
+                               <span className="text-[10px] font-black text-indigo-400">{m.accuracy.toFixed(1)}% <span className="text-slate-500">±{m.accuracyStd.toFixed(1)}</span></span>
                              </div>
+                             {m.label && <p className="text-[8px] font-bold text-slate-500 mb-1.5 font-mono">{m.label}</p>}
+                             <p className="text-[8px] font-bold text-slate-500 mb-1.5 uppercase tracking-widest">MASE {m.mase.toFixed(2)} · FVA {m.fva >= 0 ? '+' : ''}{m.fva.toFixed(1)} pts</p>
                              <div className="w-full bg-slate-800 h-1 rounded-full overflow-hidden">
                                <div className="bg-indigo-500 h-full" style={{width: `${m.accuracy}%`}} />
                              </div>
@@ -775,12 +1574,394 @@ const App: React.FC = () => {
                          ))}
                        </div>
                     </div>
+                    <div className="bg-slate-900 p-6 rounded-[2.5rem] border border-slate-800 shadow-2xl">
+                       <h3 className="text-[10px] font-black text-white uppercase tracking-widest mb-1">Ensemble Weights</h3>
+                       <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest mb-4">{ensembleSpec.weighting} · top {ensembleSpec.members.length} by {committedSettings.filters.selectionMetric}</p>
+                       <div className="space-y-3">
+                         {ensembleSpec.members.map((m, i) => (
+                           <div key={m}>
+                             <div className="flex justify-between items-center mb-1">
+                               <span className="text-[9px] font-black uppercase text-slate-300">{m.split(' (')[0]}</span>
+                               <span className="text-[10px] font-black text-emerald-400">{(ensembleSpec.weights[i] * 100).toFixed(0)}%</span>
+                             </div>
+                             <div className="w-full bg-slate-800 h-1 rounded-full overflow-hidden">
+                               <div className="bg-emerald-500 h-full" style={{width: `${ensembleSpec.weights[i] * 100}%`}} />
+                             </div>
+                           </div>
+                         ))}
+                       </div>
+                    </div>
                     <button onClick={runRca} disabled={isRcaLoading} className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-black text-[10px] uppercase tracking-widest rounded-2xl flex items-center justify-center gap-3 shadow-xl shadow-indigo-600/10 transition-all disabled:opacity-50">
                       {isRcaLoading ? <Loader2 size={16} className="animate-spin" /> : <Wand2 size={16} />} Run Anomaly RCA
                     </button>
                   </section>
                 </div>
                 
+                <section className="bg-slate-900 p-8 rounded-[2.5rem] border border-slate-800 shadow-2xl">
+                  <h3 className="text-sm font-black text-white uppercase tracking-widest mb-6">Accuracy by Horizon Lag</h3>
+                  <div className="h-[300px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={backtestResults.horizonAccuracy}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#1e293b" />
+                        <XAxis dataKey="lag" tick={{fontSize: 9}} />
+                        <YAxis tickFormatter={(val) => `${val}%`} tick={{fontSize: 9}} />
+                        <Tooltip 
+                          contentStyle={{backgroundColor: '#0f172a', borderRadius: '12px'}} 
+                          formatter={(val: number, name: string) => [`${val.toFixed(1)}%`, name.split(' (')[0]]}
+                        />
+                        <Legend verticalAlign="top" height={36} iconType="circle" formatter={(val: string) => val.split(' (')[0]} wrapperStyle={{fontSize: '9px', fontWeight: 900, textTransform: 'uppercase'}} />
+                        {COMPARED_METHODOLOGIES.map((m, i) => (
+                          <Line key={m} type="monotone" dataKey={m} stroke={MODEL_COLORS[i % MODEL_COLORS.length]} strokeWidth={m === effectiveMethod ? 4 : 1.5} dot={false} />
+                        ))}
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </section>
+
+                <section className="bg-slate-900 p-8 rounded-[2.5rem] border border-slate-800 shadow-2xl">
+                  <h3 className="text-sm font-black text-white uppercase tracking-widest mb-1">Accuracy by Hierarchy Level</h3>
+                  <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest mb-6">{RECONCILIATION_LABELS[committedSettings.filters.reconciliation]} · pooled WAPE across backtest origins</p>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {hierarchyBacktest.levels.map(l => (
+                      <div key={l.level} className="p-4 bg-slate-950 rounded-2xl border border-slate-800">
+                        <div className="flex justify-between items-center mb-3">
+                          <span className="text-[10px] font-black uppercase text-slate-300 tracking-widest">{l.level}</span>
+                          <span className="text-[8px] font-bold text-slate-500 uppercase">{l.nodes} node{l.nodes === 1 ? '' : 's'}</span>
+                        </div>
+                        <p className="text-2xl font-black text-indigo-400">{l.accuracy.toFixed(1)}%</p>
+                        <div className="flex justify-between text-[9px] font-bold text-slate-500 mt-2">
+                          <span>Base WAPE {l.baseWape.toFixed(1)}%</span>
+                          <span className={l.reconciledWape <= l.baseWape ? 'text-emerald-400' : 'text-red-400'}>Reconciled {l.reconciledWape.toFixed(1)}%</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+
+                <section className="bg-slate-900 p-8 rounded-[2.5rem] border border-slate-800 shadow-2xl">
+                  <h3 className="text-sm font-black text-white uppercase tracking-widest mb-1">Bias Correction</h3>
+                  <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest mb-6">
+                    Backtest bias per lag, shrunk by origin agreement · {committedSettings.filters.biasCorrection ? 'applied to base forecasts' : 'estimate only · switch on under Backtest Design'}
+                  </p>
+                  <div className="overflow-x-auto max-h-[320px] no-scrollbar">
+                    <table className="w-full text-left">
+                      <thead>
+                        <tr className="text-[8px] font-black text-slate-500 uppercase tracking-widest border-b border-slate-800">
+                          <th className="py-2 pr-4">Series</th><th className="py-2 pr-4">Level</th>
+                          {Array.from({ length: committedSettings.filters.backtestHorizon }, (_, i) => <th key={i} className="py-2 pr-4 text-right">Lag {i + 1}</th>)}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {hierarchy.nodes.map(n => {
+                          const lags = biasEstimates.get(n.id) ?? [];
+                          const drilled = n.id === (drillSku === 'ALL' ? 'total:Total' : `sku:${drillSku}`);
+                          return (
+                            <tr key={n.id} className={`text-[10px] font-bold border-b border-slate-800/50 ${drilled ? 'text-indigo-300' : 'text-slate-300'}`}>
+                              <td className="py-2 pr-4 font-black">{n.name}</td>
+                              <td className="py-2 pr-4 text-[8px] uppercase tracking-widest text-slate-500">{n.level}</td>
+                              {lags.map(l => (
+                                <td key={l.lag} className="py-2 pr-4 text-right" title={`Raw ${(l.raw * 100).toFixed(1)}% · weight ${l.weight.toFixed(2)} · ${l.origins} origins`}>
+                                  <span className={Math.abs(l.applied) >= 0.05 ? (l.applied > 0 ? 'text-orange-400' : 'text-sky-400') : 'text-slate-500'}>{l.applied >= 0 ? '+' : ''}{(l.applied * 100).toFixed(1)}%</span>
+                                  <span className="block text-[8px] text-slate-600">raw {(l.raw * 100).toFixed(1)}%</span>
+                                </td>
+                              ))}
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </section>
+
+                <section className="bg-slate-900 p-8 rounded-[2.5rem] border border-slate-800 shadow-2xl">
+                  <div className="flex justify-between items-start mb-6">
+                    <div>
+                      <h3 className="text-sm font-black text-white uppercase tracking-widest mb-1">Forecast Snapshots</h3>
+                      <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest">
+                        {snapshots.length} version{snapshots.length === 1 ? '' : 's'} · {drillSku === 'ALL' ? 'Portfolio' : drillSku} · actuals to {snapshotActuals.lastDate || '—'}
+                        {snapshotView.meanStability !== null && ` · mean stability ${snapshotView.meanStability.toFixed(1)}%`}
+                      </p>
+                    </div>
+                    {snapshots.length > 0 && (
+                      <button onClick={() => { setSnapshots([]); saveSnapshots([]); }} className="px-4 py-2 bg-slate-950 border border-slate-800 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-red-400 hover:border-red-500 transition-all flex items-center gap-2"><Trash2 size={12}/> Clear</button>
+                    )}
+                  </div>
+                  {snapshots.length === 0 ? (
+                    <p className="text-[10px] font-bold text-slate-500">Every Run Analysis is saved here as a new version.</p>
+                  ) : (
+                    <div className="space-y-8">
+                      <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+                        <div className="lg:col-span-5 overflow-x-auto max-h-[360px] no-scrollbar">
+                          <table className="w-full text-left">
+                            <thead>
+                              <tr className="text-[8px] font-black text-slate-500 uppercase tracking-widest border-b border-slate-800">
+                                <th className="py-2 pr-4">Version</th><th className="py-2 pr-4">Origin</th><th className="py-2 pr-4">Model</th><th className="py-2 pr-4 text-right">Stability</th><th className="py-2"></th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {[...snapshots].reverse().map((v: ForecastSnapshot) => {
+                                const stability = snapshotView.stability.get(v.version);
+                                return (
+                                  <tr key={v.id} className="text-[10px] font-bold border-b border-slate-800/50 text-slate-300">
+                                    <td className="py-2 pr-4">
+                                      <span className="font-black">v{v.version}</span>
+                                      <span className="block text-[8px] text-slate-500">{new Date(v.createdAt).toLocaleString()}</span>
+                                    </td>
+                                    <td className="py-2 pr-4 text-slate-500">{v.origin} · {v.settings.filters.interval}</td>
+                                    <td className="py-2 pr-4 text-[9px]">{v.methodology.split(' (')[0]}</td>
+                                    <td className={`py-2 pr-4 text-right ${stability && stability.stability < 80 ? 'text-orange-400' : 'text-slate-300'}`} title={stability ? `vs v${stability.previousVersion} over ${stability.overlap} periods` : undefined}>
+                                      {stability ? `${stability.stability.toFixed(1)}%` : '—'}
+                                    </td>
+                                    <td className="py-2 text-right">
+                                      <button title="Delete version" onClick={() => setSnapshots((list: ForecastSnapshot[]) => { const next = list.filter(x => x.id !== v.id); saveSnapshots(next); return next; })} className="p-1 rounded text-slate-600 hover:text-red-400"><Trash2 size={10}/></button>
+                                    </td>
+                                  </tr>
+                                );
+                              })}
+                            </tbody>
+                          </table>
+                        </div>
+
+                        <div className="lg:col-span-7 space-y-4">
+                          <div className="grid grid-cols-3 gap-3">
+                            {snapshotView.waterfall.summary.map(l => (
+                              <div key={l.lag} className="p-4 bg-slate-950 rounded-2xl border border-slate-800">
+                                <div className="flex justify-between items-center mb-2">
+                                  <span className="text-[10px] font-black uppercase text-slate-300 tracking-widest">Lag {l.lag}</span>
+                                  <span className="text-[8px] font-bold text-slate-500 uppercase">{l.count} period{l.count === 1 ? '' : 's'}</span>
+                                </div>
+                                <p className="text-2xl font-black text-indigo-400">{l.count > 0 ? `${l.accuracy.toFixed(1)}%` : '—'}</p>
+                                <p className="text-[9px] font-bold text-slate-500 mt-1">{l.count > 0 ? `Bias ${l.bias >= 0 ? '+' : ''}${l.bias.toFixed(1)}%` : 'Awaiting actuals'}</p>
+                              </div>
+                            ))}
+                          </div>
+                          {snapshotView.waterfall.rows.length > 0 && (
+                            <div className="overflow-x-auto max-h-[240px] no-scrollbar">
+                              <table className="w-full text-left">
+                                <thead>
+                                  <tr className="text-[8px] font-black text-slate-500 uppercase tracking-widest border-b border-slate-800">
+                                    <th className="py-2 pr-4">Period</th><th className="py-2 pr-4 text-right">Actual</th>
+                                    {SNAPSHOT_LAGS.map(lag => <th key={lag} className="py-2 pr-4 text-right">Lag {lag}</th>)}
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {snapshotView.waterfall.rows.map(row => (
+                                    <tr key={row.date} className="text-[10px] font-bold border-b border-slate-800/50 text-slate-300">
+                                      <td className="py-2 pr-4 text-slate-500">{row.date}</td>
+                                      <td className="py-2 pr-4 text-right font-black">{formatNumber(row.actual)}</td>
+                                      {SNAPSHOT_LAGS.map(lag => {
+                                        const cell = row.lags[lag];
+                                        return (
+                                          <td key={lag} className="py-2 pr-4 text-right" title={cell ? `v${cell.version}` : undefined}>
+                                            {cell ? (
+                                              <>
+                                                {formatNumber(cell.forecast)}
+                                                {cell.errorPct !== undefined && <span className={`ml-1 text-[8px] ${Math.abs(cell.errorPct) > 20 ? 'text-red-400' : 'text-emerald-400'}`}>{cell.errorPct >= 0 ? '+' : ''}{cell.errorPct.toFixed(0)}%</span>}
+                                              </>
+                                            ) : <span className="text-slate-600">—</span>}
+                                          </td>
+                                        );
+                                      })}
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+
+                      {snapshots.length > 1 && (
+                        <div className="pt-6 border-t border-slate-800">
+                          <div className="flex flex-wrap items-center gap-3 mb-4">
+                            <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Compare</span>
+                            {(['a', 'b'] as const).map(side => (
+                              <select key={side} className="p-2 bg-slate-950 border border-slate-800 rounded-lg text-[10px] font-bold text-slate-300 outline-none" value={snapshotView.diff?.[side].id ?? ''} onChange={e => setDiffIds((d: { a: string; b: string }) => ({ ...d, [side]: e.target.value }))}>
+                                {[...snapshots].reverse().map((v: ForecastSnapshot) => <option key={v.id} value={v.id}>v{v.version} · {v.origin} · {v.methodology.split(' (')[0]}</option>)}
+                              </select>
+                            ))}
+                          </div>
+                          {snapshotView.diff ? (
+                            <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+                              <div className="lg:col-span-7 h-[260px]">
+                                <ResponsiveContainer width="100%" height="100%">
+                                  <LineChart data={snapshotView.diff.rows.map(r => ({ date: r.date, a: r.a?.forecast, b: r.b?.forecast }))}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                                    <XAxis dataKey="date" tick={{fontSize: 9}} />
+                                    <YAxis tick={{fontSize: 9}} />
+                                    <Tooltip contentStyle={{backgroundColor: '#0f172a', borderRadius: '12px'}} />
+                                    <Legend verticalAlign="top" height={36} iconType="circle" wrapperStyle={{fontSize: '9px', fontWeight: 900, textTransform: 'uppercase'}} />
+                                    <Line type="monotone" dataKey="a" name={`v${snapshotView.diff.a.version}`} stroke="#64748b" strokeWidth={2} strokeDasharray="5 5" dot={false} connectNulls />
+                                    <Line type="monotone" dataKey="b" name={`v${snapshotView.diff.b.version}`} stroke="#6366f1" strokeWidth={3} dot={false} connectNulls />
+                                  </LineChart>
+                                </ResponsiveContainer>
+                              </div>
+                              <div className="lg:col-span-5 space-y-4">
+                                <div className="p-4 bg-slate-950 rounded-2xl border border-slate-800">
+                                  <p className="text-[8px] font-black text-slate-500 uppercase tracking-widest mb-2">Settings changed</p>
+                                  {snapshotView.diff.settings.length === 0 ? (
+                                    <p className="text-[10px] font-bold text-slate-500">Same settings; only the data changed.</p>
+                                  ) : snapshotView.diff.settings.map(c => (
+                                    <div key={c.field} className="flex justify-between gap-4 text-[9px] font-bold py-0.5">
+                                      <span className="text-slate-400">{c.field}</span>
+                                      <span className="text-slate-300 text-right truncate">{c.a} → <span className="text-indigo-400">{c.b}</span></span>
+                                    </div>
+                                  ))}
+                                </div>
+                                <div className="overflow-x-auto max-h-[180px] no-scrollbar">
+                                  <table className="w-full text-left">
+                                    <thead>
+                                      <tr className="text-[8px] font-black text-slate-500 uppercase tracking-widest border-b border-slate-800">
+                                        <th className="py-2 pr-4">Period</th><th className="py-2 pr-4 text-right">v{snapshotView.diff.a.version}</th><th className="py-2 pr-4 text-right">v{snapshotView.diff.b.version}</th><th className="py-2 text-right">Δ</th>
+                                      </tr>
+                                    </thead>
+                                    <tbody>
+                                      {snapshotView.diff.rows.map(r => (
+                                        <tr key={r.date} className="text-[10px] font-bold border-b border-slate-800/50 text-slate-300">
+                                          <td className="py-2 pr-4 text-slate-500">{r.date}</td>
+                                          <td className="py-2 pr-4 text-right">{r.a ? formatNumber(r.a.forecast) : '—'}</td>
+                                          <td className="py-2 pr-4 text-right">{r.b ? formatNumber(r.b.forecast) : '—'}</td>
+                                          <td className={`py-2 text-right ${(r.delta ?? 0) > 0 ? 'text-emerald-400' : (r.delta ?? 0) < 0 ? 'text-red-400' : 'text-slate-500'}`}>
+                                            {r.delta !== undefined ? `${r.delta >= 0 ? '+' : ''}${formatNumber(r.delta)}${r.deltaPct !== undefined ? ` (${r.deltaPct.toFixed(0)}%)` : ''}` : '—'}
+                                          </td>
+                                        </tr>
+                                      ))}
+                                    </tbody>
+                                  </table>
+                                </div>
+                              </div>
+                            </div>
+                          ) : (
+                            <p className="text-[10px] font-bold text-slate-500">Pick two different versions.</p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </section>
+
+                <section className="bg-slate-900 p-8 rounded-[2.5rem] border border-slate-800 shadow-2xl">
+                  <h3 className="text-sm font-black text-white uppercase tracking-widest mb-1">Data Quality</h3>
+                  <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest mb-6">
+                    Complete {committedSettings.filters.interval} calendar per SKU · {dataQuality.reduce((s, q) => s + q.fills.length, 0)} periods filled · {dataQuality.filter(q => q.tooShort).length} short series
+                  </p>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                      <thead>
+                        <tr className="text-[8px] font-black text-slate-500 uppercase tracking-widest border-b border-slate-800">
+                          <th className="py-2 pr-4">SKU</th><th className="py-2 pr-4">Span</th><th className="py-2 pr-4 text-right">Periods</th><th className="py-2 pr-4 text-right">Observed</th>
+                          <th className="py-2 pr-4 text-right">Duplicates</th><th className="py-2 pr-4">Fill Policy</th><th className="py-2 pr-4">Filled Periods</th><th className="py-2 text-right">Status</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {dataQuality.map(q => (
+                          <tr key={q.sku} className="text-[10px] font-bold border-b border-slate-800/50 text-slate-300">
+                            <td className="py-2 pr-4 font-black">{q.sku}</td>
+                            <td className="py-2 pr-4 text-slate-500">{q.firstDate} → {q.lastDate}</td>
+                            <td className="py-2 pr-4 text-right">{q.periods}</td>
+                            <td className="py-2 pr-4 text-right">{q.observed}</td>
+                            <td className={`py-2 pr-4 text-right ${q.duplicates > 0 ? 'text-orange-400' : 'text-slate-500'}`}>{q.duplicates}</td>
+                            <td className="py-2 pr-4">
+                              <select className="p-1 bg-slate-950 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={q.policy} onChange={e => setFillPolicies(p => ({...p, [q.sku]: e.target.value as FillPolicy}))}>
+                                {(['zero', 'interpolate'] as FillPolicy[]).map(p => <option key={p} value={p}>{p}</option>)}
+                              </select>
+                            </td>
+                            <td className="py-2 pr-4 font-mono text-[9px] text-slate-500" title={q.fills.map(f => `${f.date}: ${f.value}`).join('\n')}>
+                              {q.fills.length === 0 ? '—' : `${q.fills.slice(0, 3).map(f => `${f.date}=${formatNumber(f.value)}`).join(', ')}${q.fills.length > 3 ? ` +${q.fills.length - 3}` : ''}`}
+                            </td>
+                            <td className={`py-2 text-right text-[8px] uppercase tracking-widest ${q.tooShort ? 'text-red-400' : 'text-emerald-400'}`}>{q.tooShort ? 'Too short' : 'OK'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </section>
+
+                <section className="bg-slate-900 p-8 rounded-[2.5rem] border border-slate-800 shadow-2xl">
+                  <h3 className="text-sm font-black text-white uppercase tracking-widest mb-1">Seasonality</h3>
+                  <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest mb-6">
+                    Detected per series · {seasonalityRows.filter(r => r.period > 1).length} of {seasonalityRows.length} seasonal · strength ≥ {SEASONAL_STRENGTH_THRESHOLD} required
+                  </p>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                      <thead>
+                        <tr className="text-[8px] font-black text-slate-500 uppercase tracking-widest border-b border-slate-800">
+                          <th className="py-2 pr-4">Series</th><th className="py-2 pr-4">Level</th><th className="py-2 pr-4 text-right">Period</th>
+                          <th className="py-2 pr-4">Strength</th><th className="py-2">Candidates (ACF / Strength)</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {seasonalityRows.map(r => (
+                          <tr key={r.id} className="text-[10px] font-bold border-b border-slate-800/50 text-slate-300">
+                            <td className="py-2 pr-4 font-black">{r.name}</td>
+                            <td className="py-2 pr-4 text-[8px] uppercase tracking-widest text-slate-500">{r.level}</td>
+                            <td className={`py-2 pr-4 text-right ${r.period > 1 ? 'text-indigo-400' : 'text-slate-500'}`}>{r.period > 1 ? r.period : 'None'}</td>
+                            <td className="py-2 pr-4">
+                              <div className="flex items-center gap-2">
+                                <div className="w-24 bg-slate-800 h-1 rounded-full overflow-hidden">
+                                  <div className={`${r.period > 1 ? 'bg-indigo-500' : 'bg-slate-600'} h-full`} style={{width: `${r.strength * 100}%`}} />
+                                </div>
+                                <span className="text-[9px]">{r.strength.toFixed(2)}</span>
+                              </div>
+                            </td>
+                            <td className="py-2 font-mono text-[9px] text-slate-500">
+                              {r.candidates.length === 0 ? 'Too short to test' : r.candidates.map(c => `${c.period}: ${c.acf.toFixed(2)} / ${c.strength.toFixed(2)}`).join(' · ')}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </section>
+
+                <section className="bg-slate-900 p-8 rounded-[2.5rem] border border-slate-800 shadow-2xl">
+                  <h3 className="text-sm font-black text-white uppercase tracking-widest mb-1">Anomaly Log</h3>
+                  <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest mb-6">
+                    {ANOMALY_DETECTOR_LABELS[committedSettings.filters.anomalyDetector]} · {anomalyLog.length} flagged · {anomalyLog.filter(a => a.status === 'pending').length} pending review
+                    {committedSettings.filters.applyAnomalyCleaning ? ' · corrections applied' : ' · corrections off'}
+                  </p>
+                  {anomalyLog.length === 0 ? (
+                    <p className="text-[10px] font-bold text-slate-500">No points exceed the threshold.</p>
+                  ) : (
+                    <div className="overflow-x-auto max-h-[420px] no-scrollbar">
+                      <table className="w-full text-left">
+                        <thead>
+                          <tr className="text-[8px] font-black text-slate-500 uppercase tracking-widest border-b border-slate-800">
+                            <th className="py-2 pr-4">SKU</th><th className="py-2 pr-4">Date</th><th className="py-2 pr-4 text-right">Original</th><th className="py-2 pr-4 text-right">Suggested</th>
+                            <th className="py-2 pr-4 text-right">Score</th><th className="py-2 pr-4">Status</th><th className="py-2 text-right">Decision</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {anomalyLog.map(a => (
+                            <tr key={a.id} className="text-[10px] font-bold border-b border-slate-800/50 text-slate-300">
+                              <td className="py-2 pr-4 font-black">{a.sku}</td>
+                              <td className="py-2 pr-4 text-slate-500">{a.date}</td>
+                              <td className="py-2 pr-4 text-right">{formatNumber(a.original)}</td>
+                              <td className="py-2 pr-4 text-right text-emerald-400">{formatNumber(a.suggested)}</td>
+                              <td className={`py-2 pr-4 text-right ${a.score >= 2 * committedSettings.filters.anomalyThreshold ? 'text-red-400' : 'text-orange-400'}`}>{a.score.toFixed(1)}σ</td>
+                              <td className="py-2 pr-4 text-[8px] uppercase tracking-widest text-slate-500">{a.status}</td>
+                              <td className="py-2">
+                                <div className="flex items-center justify-end gap-1.5">
+                                  <button title="Accept suggestion" onClick={() => setAnomalyReviews(r => ({...r, [a.id]: { ...r[a.id], status: 'accepted' }}))} className={`p-1 rounded ${a.status === 'accepted' ? 'bg-emerald-600 text-white' : 'bg-slate-950 text-slate-500 hover:text-emerald-400'}`}><Check size={10}/></button>
+                                  <button title="Keep original" onClick={() => setAnomalyReviews(r => ({...r, [a.id]: { ...r[a.id], status: 'rejected' }}))} className={`p-1 rounded ${a.status === 'rejected' ? 'bg-red-600 text-white' : 'bg-slate-950 text-slate-500 hover:text-red-400'}`}><X size={10}/></button>
+                                  <input type="number" min="0" placeholder="Override" className="w-16 p-1 bg-slate-950 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={a.override ?? ''} onChange={e => setAnomalyReviews(r => {
+                                    // Clearing the figure keeps the rest of the review; an override without a figure goes back to pending
+                                    if (e.target.value === '') {
+                                      const { override: _, ...review } = r[a.id] ?? { status: a.status };
+                                      return {...r, [a.id]: { ...review, status: review.status === 'overridden' ? 'pending' : review.status }};
+                                    }
+                                    return {...r, [a.id]: { ...r[a.id], status: 'overridden', override: Math.max(0, Number(e.target.value)) }};
+                                  })} />
+                                </div>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </section>
+
                 {anomalyRca && (
                   <section className="bg-slate-900 border border-slate-800 p-6 rounded-[2rem] shadow-2xl animate-in zoom-in-95 duration-300">
                     <h3 className="text-xs font-black text-indigo-400 uppercase tracking-widest mb-3 flex items-center gap-2"><Sparkles size={14}/> Root Cause Analysis Results</h3>
@@ -792,10 +1973,11 @@ const App: React.FC = () => {
 
             {activeTab === 'inventory' && (
               <div className="space-y-6">
-                <section className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <section className="grid grid-cols-1 md:grid-cols-4 gap-6">
                    <MetricsCard label="On-Hand" value={formatNumber(inventory.filter(i => committedSettings.filters.skus.includes(i.sku)).reduce((s, i) => s + i.onHand, 0))} description="Current stock aggregation" />
                    <MetricsCard label="Safety Stock" value={formatNumber(futureForecast[0]?.safetyStock || 0)} description="Standard deviation buffer" />
                    <MetricsCard label="Reorder Point" value={formatNumber(futureForecast[0]?.reorderPoint || 0)} description="Replenishment trigger" />
+                   <MetricsCard label="Obsolescence Risk" value={formatCurrency(obsolescence.reduce((s, o) => s + o.valueAtRisk, 0))} description="Stock left at end of life" />
                 </section>
                 <section className="bg-slate-900 p-8 rounded-[2.5rem] border border-slate-800 shadow-2xl">
                   <h3 className="text-sm font-black text-white uppercase tracking-widest mb-6">Inventory Depletion Simulator</h3>
@@ -817,6 +1999,38 @@ const App: React.FC = () => {
                     </ResponsiveContainer>
                   </div>
                 </section>
+                {(obsolescence.length > 0 || chainedHistory.links.length > 0) && (
+                  <section className="bg-slate-900 p-8 rounded-[2.5rem] border border-slate-800 shadow-2xl">
+                    <h3 className="text-sm font-black text-white uppercase tracking-widest mb-1">Lifecycle &amp; Obsolescence</h3>
+                    <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest mb-6">
+                      {chainedHistory.links.map(l => `${l.oldSku} → ${l.newSku}: ${formatNumber(l.volume)} units of history chained`).join(' · ') || 'No history chained'}
+                    </p>
+                    {obsolescence.length > 0 && (
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                          <thead>
+                            <tr className="text-[8px] font-black text-slate-500 uppercase tracking-widest border-b border-slate-800">
+                              <th className="py-2 pr-4">SKU</th><th className="py-2 pr-4">Successor</th><th className="py-2 pr-4">End of Life</th>
+                              <th className="py-2 pr-4 text-right">On-Hand</th><th className="py-2 pr-4 text-right">Units at Risk</th><th className="py-2 text-right">Value at Risk</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {obsolescence.map(o => (
+                              <tr key={o.sku} className="text-[10px] font-bold border-b border-slate-800/50 text-slate-300">
+                                <td className="py-2 pr-4 font-black">{o.sku}</td>
+                                <td className="py-2 pr-4 text-slate-500">{o.successor ?? '—'}</td>
+                                <td className="py-2 pr-4 text-slate-500">{o.endOfLife}{o.withinHorizon ? '' : ' (beyond horizon)'}</td>
+                                <td className="py-2 pr-4 text-right">{formatNumber(o.onHand)}</td>
+                                <td className={`py-2 pr-4 text-right ${o.unitsAtRisk > 0 ? 'text-orange-400' : 'text-emerald-400'}`}>{formatNumber(o.unitsAtRisk)}</td>
+                                <td className={`py-2 text-right ${o.valueAtRisk > 0 ? 'text-red-400' : 'text-slate-500'}`}>{formatCurrency(o.valueAtRisk)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </section>
+                )}
               </div>
             )}
 
@@ -857,6 +2071,65 @@ const App: React.FC = () => {
                     <p className="text-[10px] text-slate-400 font-medium leading-relaxed uppercase">Replenishment focus should be prioritized for Class A items to optimize working capital turnover.</p>
                   </div>
                 </div>
+                <div className="lg:col-span-12 bg-slate-900 p-8 rounded-[2.5rem] border border-slate-800 shadow-2xl">
+                  <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-6">
+                    <div>
+                      <h3 className="text-sm font-black text-white uppercase tracking-widest mb-1">Demand Pattern Classification</h3>
+                      <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest">Syntetos-Boylan · ADI ≥ {ADI_CUTOFF} intermittent · CV² ≥ {CV2_CUTOFF} variable · {committedSettings.filters.classBasedModels ? 'class-based models on' : 'class-based models off'}</p>
+                    </div>
+                    <button onClick={handleExportClassification} className="px-4 py-2 bg-slate-950 border border-slate-800 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-400 hover:border-indigo-500 transition-all flex items-center gap-2">
+                      <Download size={12}/> Export Classes
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+                    {DEMAND_CLASSES.map(c => (
+                      <div key={c} className="p-3 bg-slate-950 rounded-2xl border border-slate-800 space-y-2">
+                        <div className="flex justify-between items-center">
+                          <span className="text-[10px] font-black uppercase text-slate-300 tracking-widest">{c}</span>
+                          <span className="text-[9px] font-bold text-slate-500">{Array.from(demandProfiles.values()).filter((p: DemandProfile) => p.demandClass === c).length} SKUs</span>
+                        </div>
+                        <select className="w-full p-1 bg-slate-900 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={classMethods[c]} onChange={e => setClassMethods(m => ({...m, [c]: e.target.value as ForecastMethodology}))}>
+                          {BASE_METHODOLOGIES.map(m => <option key={m} value={m}>{m.split(' (')[0]}</option>)}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                      <thead>
+                        <tr className="text-[8px] font-black text-slate-500 uppercase tracking-widest border-b border-slate-800">
+                          <th className="py-2 pr-4">SKU</th><th className="py-2 pr-4">ABC</th><th className="py-2 pr-4 text-right">ADI</th><th className="py-2 pr-4 text-right">CV²</th>
+                          <th className="py-2 pr-4">Pattern</th><th className="py-2">Methodology</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {paretoResults.map(p => {
+                          const profile = demandProfiles.get(p.sku);
+                          return (
+                            <tr key={p.sku} className="text-[10px] font-bold border-b border-slate-800/50 text-slate-300">
+                              <td className="py-2 pr-4 font-black">{p.sku}</td>
+                              <td className={`py-2 pr-4 ${p.grade === 'A' ? 'text-indigo-400' : p.grade === 'B' ? 'text-orange-400' : 'text-slate-500'}`}>{p.grade}</td>
+                              <td className="py-2 pr-4 text-right">{profile && Number.isFinite(profile.adi) ? profile.adi.toFixed(2) : '—'}</td>
+                              <td className="py-2 pr-4 text-right">{profile ? profile.cv2.toFixed(2) : '—'}</td>
+                              <td className="py-2 pr-4 text-[8px] uppercase tracking-widest text-slate-400">{profile?.demandClass ?? 'not in selection'}</td>
+                              <td className="py-2">
+                                {profile && (
+                                  <select className="p-1 bg-slate-950 border border-slate-800 rounded text-[9px] font-bold text-slate-200 outline-none" value={skuMethodOverrides[p.sku] ?? ''} onChange={e => setSkuMethodOverrides(o => {
+                                    if (e.target.value === '') { const { [p.sku]: _, ...rest } = o; return rest; }
+                                    return {...o, [p.sku]: e.target.value as ForecastMethodology};
+                                  })}>
+                                    <option value="">{committedSettings.filters.classBasedModels ? `Class default · ${classMethods[profile.demandClass].split(' (')[0]}` : `${committedSettings.filters.methodology === ForecastMethodology.AUTO ? 'Auto' : 'Primary'} · ${(seriesSelections.get(`sku:${p.sku}`)?.method ?? effectiveMethod).split(' (')[0]}`}</option>
+                                    {BASE_METHODOLOGIES.map(m => <option key={m} value={m}>{m.split(' (')[0]}</option>)}
+                                  </select>
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
               </div>
             )}
           </div>
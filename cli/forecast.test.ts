@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_FILTERS, DEFAULT_HORIZON } from '../constants';
+import { parseSalesCSV, parseAttributesCSV, parseInventoryCSV } from '../utils/csv';
+import { createForecastPool } from '../utils/workerPool';
+import { forecastPlan, completePlan, ForecastInputs, PlanInputs, TaskRunner } from '../utils/engine';
+import { cliSettings, planFromFiles, CliConfig } from './forecast';
+
+// Three SKUs in two categories, monthly from 2021-01 to 2024-04, with a trend and a yearly pattern
+const MONTHS = Array.from({ length: 40 }, (_, t) => `${2021 + Math.floor(t / 12)}-${String((t % 12) + 1).padStart(2, '0')}-01`);
+const SKUS = [
+  { sku: 'V1', category: 'Video', base: 70 },
+  { sku: 'A1', category: 'Audio', base: 120 },
+  { sku: 'A2', category: 'Audio', base: 40 }
+];
+
+const FILES = {
+  sales: ['date,sku,category,quantity', ...SKUS.flatMap(s => MONTHS.map((date, t) =>
+    `${date},${s.sku},${s.category},${s.base + 2 * t + Math.round(s.base * 0.2 * Math.sin((2 * Math.PI * t) / 12)) + (t % 3)}`
+  ))].join('\n'),
+  attributes: ['sku,category,lead_time_days,unit_cost,selling_price,service_level', 'A1,Audio,30,10,18,0.95', 'A2,Audio,14,6,9,0.9', 'V1,Video,45,20,35,0.98'].join('\n'),
+  inventory: ['sku,on_hand', 'A1,300', 'A2,80', 'V1,150'].join('\n')
+};
+
+describe('cliSettings', () => {
+  const data = parseSalesCSV(FILES.sales);
+
+  it('takes the dashboard defaults with every SKU in the sales file', () => {
+    const { filters, horizon } = cliSettings(data, {});
+    expect(filters).toEqual({ ...DEFAULT_FILTERS, skus: ['A1', 'A2', 'V1'] });
+    expect(horizon).toBe(DEFAULT_HORIZON);
+  });
+
+  it('lets the config override the defaults', () => {
+    const { filters, horizon } = cliSettings(data, { horizon: 6, filters: { skus: ['A1'], startDate: '2022-01-01' } });
+    expect(filters.skus).toEqual(['A1']);
+    expect(filters.startDate).toBe('2022-01-01');
+    expect(filters.endDate).toBe(DEFAULT_FILTERS.endDate);
+    expect(horizon).toBe(6);
+  });
+});
+
+describe('planFromFiles', () => {
+  it('rejects a sales file without rows', async () => {
+    await expect(planFromFiles({ ...FILES, sales: 'date,sku,category,quantity' })).rejects.toThrow('No sales rows in the sales file');
+  });
+
+  it('plans the same numbers as the dashboard', async () => {
+    const config: CliConfig = {
+      horizon: 6,
+      filters: { biasCorrection: true, reconciliation: 'mint' },
+      supersessions: [{ id: 's1', oldSku: 'A2', newSku: 'A1', effectiveDate: '2024-08-01', ratio: 1 }]
+    };
+    const { settings, plan } = await planFromFiles(FILES, config);
+
+    // What App does: the forecast stages with every task list on the pool, then the SKU plans from the forecast
+    const { filters, horizon, ...plannerInputs } = config;
+    const forecastInputs: ForecastInputs = { ...plannerInputs, data: parseSalesCSV(FILES.sales), attributes: parseAttributesCSV(FILES.attributes), driverRecords: [] };
+    const planInputs: PlanInputs = { ...forecastInputs, inventory: parseInventoryCSV(FILES.inventory) };
+    const pool = createForecastPool(1, null);
+    const run: TaskRunner = tasks => pool.run(tasks);
+    const dashboard = completePlan(await forecastPlan(forecastInputs, settings, run), planInputs, settings);
+    // A rerun answers from the pool's cache and must not change a number
+    const cached = completePlan(await forecastPlan(forecastInputs, settings, run), planInputs, settings);
+    pool.terminate();
+
+    [dashboard, cached].forEach(other => {
+      expect(plan.skus.map(s => s.sku)).toEqual(other.skus.map(s => s.sku));
+      plan.skus.forEach((s, i) => expect(s.points).toEqual(other.skus[i].points));
+      expect(plan.total).toEqual(other.total);
+      expect(plan.financials).toEqual(other.financials);
+    });
+    expect(plan.total.filter(p => p.isForecast)).toHaveLength(6);
+  });
+});
@@ -0,0 +1,111 @@
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { pathToFileURL } from 'node:url';
+import { DataPoint, FilterState, ForecastMethodology } from '../types';
+import { DEFAULT_FILTERS, DEFAULT_HORIZON } from '../constants';
+import { runPlan, PlanInputs, PlanResult, PlanSettings } from '../utils/engine';
+import { parseSalesCSV, parseAttributesCSV, parseInventoryCSV, parseDriversCSV } from '../utils/csv';
+import { forecastCSV, replenishmentCSV, accuracyCSV } from '../utils/export';
+
+/**
+ * Batch forecasting from the command line: the dashboard's pipeline on CSV
+ * uploads and a JSON config, writing forecast, replenishment and accuracy
+ * files. The config has the shape of the dashboard's committed settings
+ * (`filters`, `horizon`), so a snapshot's settings replay as they ran.
+ */
+
+/** Settings plus the planner inputs the dashboard keeps in state; everything is optional. */
+export type CliConfig = Omit<PlanInputs, 'data' | 'attributes' | 'inventory' | 'driverRecords'> & {
+  filters?: Partial<FilterState>;
+  horizon?: number;
+};
+
+/** Contents of the input files. */
+export interface CliFiles {
+  sales: string;
+  attributes: string;
+  inventory: string;
+  drivers?: string;
+}
+
+const USAGE = `Usage: npm run forecast -- --sales <csv> --attributes <csv> --inventory <csv> [--config <json>] [--drivers <csv>] [--out <dir>]
+
+  --sales       date,sku,category,quantity
+  --attributes  sku,category,lead_time_days,unit_cost,selling_price,service_level[,analogs][,end_of_life][,launch_date]
+  --inventory   sku,on_hand
+  --config      settings and planner inputs; filters default to the dashboard's,
+                date range included, with every SKU in the sales file
+  --drivers     date,sku,price,promo,marketing_spend,macro_index
+  --out         output directory (default: forecast-output)`;
+
+/** The dashboard's default filters, with every SKU in the sales file, under the config's own. */
+export const cliSettings = (data: DataPoint[], config: CliConfig): PlanSettings => ({
+  filters: { ...DEFAULT_FILTERS, skus: Array.from(new Set(data.map(d => d.sku))).sort(), ...config.filters },
+  horizon: config.horizon ?? DEFAULT_HORIZON
+});
+
+export const planFromFiles = async (files: CliFiles, config: CliConfig = {}): Promise<{ settings: PlanSettings; plan: PlanResult }> => {
+  const data = parseSalesCSV(files.sales);
+  if (data.length === 0) throw new Error('No sales rows in the sales file');
+  const { filters, horizon, ...plannerInputs } = config;
+  const settings = cliSettings(data, config);
+  const plan = await runPlan({
+    ...plannerInputs,
+    data,
+    attributes: parseAttributesCSV(files.attributes),
+    inventory: parseInventoryCSV(files.inventory),
+    driverRecords: files.drivers ? parseDriversCSV(files.drivers) : []
+  }, settings);
+  return { settings, plan };
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      sales: { type: 'string' },
+      attributes: { type: 'string' },
+      inventory: { type: 'string' },
+      config: { type: 'string' },
+      drivers: { type: 'string' },
+      out: { type: 'string', default: 'forecast-output' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+  if (values.help || !values.sales || !values.attributes || !values.inventory) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const read = (path: string) => readFileSync(path, 'utf8');
+  const config: CliConfig = values.config ? JSON.parse(read(values.config)) : {};
+  const { settings: { horizon, filters }, plan } = await planFromFiles({
+    sales: read(values.sales),
+    attributes: read(values.attributes),
+    inventory: read(values.inventory),
+    drivers: values.drivers && read(values.drivers)
+  }, config);
+
+  mkdirSync(values.out, { recursive: true });
+  const files = {
+    'forecast.csv': forecastCSV([...plan.total, ...plan.skus.flatMap(s => s.points)]),
+    'replenishment.csv': replenishmentCSV(plan.skus, new Map(plan.abc.map(a => [a.sku, a.grade]))),
+    'accuracy.csv': accuracyCSV(plan.model.backtest, plan.model.method, plan.reconciliation.levels)
+  };
+  Object.entries(files).forEach(([name, content]) => writeFileSync(join(values.out!, name), content));
+
+  console.log(`${plan.skus.length} SKUs, ${horizon} periods ahead with ${plan.model.method}`);
+  // The selection rationale only explains the model when the backtest picked it
+  if (filters.methodology === ForecastMethodology.AUTO || filters.methodology === ForecastMethodology.ENSEMBLE) console.log(plan.model.selection.reason);
+  console.log(`Revenue ${plan.financials.totalRevenue}, margin ${plan.financials.totalMargin}, profit at risk ${plan.financials.valueAtRisk}`);
+  console.log(`Wrote ${Object.keys(files).map(f => join(values.out!, f)).join(', ')}`);
+};
+
+// Only when run as a script, so tests can import the planning functions
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((e: unknown) => {
+    console.error(e instanceof Error ? e.message : e);
+    process.exitCode = 1;
+  });
+}
@@ -1,5 +1,5 @@
 
-import { DataPoint, ProductAttribute, InventoryLevel } from './types';
+import { DataPoint, ProductAttribute, InventoryLevel, TimeInterval, FilterState, ForecastMethodology, SelectionMetric, AiProvider } from './types';
 
 export const SKUS = ['SKU-101', 'SKU-102', 'SKU-205', 'SKU-309', 'SKU-440'];
 export const CATEGORIES = ['Electronics', 'Automotive', 'Consumer Goods', 'Industrial'];
@@ -49,5 +49,14 @@ export const SAMPLE_INVENTORY: InventoryLevel[] = SKUS.map(sku => ({
 }));
 
 export const SAMPLE_DATA = generateSampleData();
-export const DEFAULT_INTERVAL = 'monthly';
+export const DEFAULT_INTERVAL = TimeInterval.MONTHLY;
 export const DEFAULT_HORIZON = 12;
+
+/** Settings the dashboard opens with; the CLI starts from these as well. */
+export const DEFAULT_FILTERS: FilterState = {
+  startDate: '2021-01-01', endDate: '2024-05-01', skus: SKUS, category: 'All',
+  confidenceLevel: 95, methodology: ForecastMethodology.HOLT_WINTERS, interval: DEFAULT_INTERVAL, selectionMetric: SelectionMetric.WAPE, ensembleWeighting: 'inverse-error', ensembleSize: 3, intervalMethod: 'analytic', reconciliation: 'bottom-up',
+  includeExternalTrends: false, globalLeadTime: 30, globalServiceLevel: 0.95,
+  defaultFillPolicy: 'zero', classBasedModels: false, applyAnomalyCleaning: false, anomalyDetector: 'rolling-mad', anomalyThreshold: 3.5, showLeadTimeOffset: false, aiProvider: AiProvider.GEMINI,
+  supplierVolatility: 0, backtestOrigins: 6, backtestHorizon: 6, backtestWindow: 'expanding', biasCorrection: false
+};
@@ -1,6 +1,6 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { AiProvider, AudienceType, OnePagerData } from "../types";
+import { AiProvider, AudienceType, OnePagerData, AnomalyRecord } from "../types";
 
 export interface MarketAdjustment {
   multiplier: number;
@@ -106,8 +106,9 @@ export const getIndustryInsights = async (provider: AiProvider, prompt: string,
   }
 };
 
-export const getAnomalyAnalysis = async (provider: AiProvider, industry: string, outliers: any[]) => {
+export const getAnomalyAnalysis = async (provider: AiProvider, industry: string, anomalies: AnomalyRecord[]) => {
   try {
+    const outliers = anomalies.map(a => ({ sku: a.sku, date: a.date, actual: a.original, expected: a.suggested, score: Number(a.score.toFixed(1)), review: a.status }));
     const instruction = `Analyze these supply chain anomalies for a business in the ${industry} sector:
     Anomalies: ${JSON.stringify(outliers)}.
     Provide a professional explanation of potential external root causes (e.g., port congestion, promotional spikes, supply shocks) specific to this industry. 
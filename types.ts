@@ -13,6 +13,40 @@ export interface ProductAttribute {
   unitCost: number;
   sellingPrice: number;
   serviceLevel: number; // e.g. 0.95
+  /** Like-item SKUs whose launch curves forecast this item until it has its own history. */
+  analogs?: AnalogLink[];
+  /** First day on sale for an item with analogs; before it the forecast is zero. */
+  launchDate?: string;
+  /** Phase-out date; the forecast ramps down to zero by then. */
+  endOfLifeDate?: string;
+}
+
+/** Replacement of one SKU by another from an effective date. */
+export interface Supersession {
+  id: string;
+  oldSku: string;
+  newSku: string;
+  effectiveDate: string;
+  /** Successor units per old unit, e.g. 0.5 when the new pack holds twice as much. */
+  ratio: number;
+}
+
+/** Holiday or planned event that shifts demand in the periods it touches. */
+export interface ForecastEvent {
+  id: string;
+  /** Occurrences sharing a name share one estimated effect. */
+  name: string;
+  /** First and last day, ISO dates. */
+  start: string;
+  end: string;
+  /** Repeats on the same calendar days every year. */
+  recurring: boolean;
+}
+
+export interface AnalogLink {
+  sku: string;
+  /** Multiplier on the analog's volumes, e.g. 0.5 for a niche variant. */
+  scale: number;
 }
 
 export interface InventoryLevel {
@@ -25,6 +59,10 @@ export interface ForecastPoint {
   date: string;
   historical?: number;
   forecast: number;
+  /** Methodology that produced the forecast point. */
+  model?: string;
+  /** SKU the point belongs to; 'ALL' for the rolled-up series. */
+  sku?: string;
   lowerBound?: number;
   upperBound?: number;
   isForecast: boolean;
@@ -32,33 +70,254 @@ export interface ForecastPoint {
   safetyStock?: number;
   reorderPoint?: number;
   scenarioForecast?: number;
-  offsetDate?: string;
+  /** Forecast quantiles keyed by label, e.g. { P10, P50, P90 }. */
+  quantiles?: Record<string, number>;
+  /** What the planned quantity is made of; the parts add up to `scenarioForecast` (or `forecast`). */
+  decomposition?: ForecastDecomposition;
+  /** Quantity of each consensus layer; `forecast` follows the approved final layer. */
+  layers?: Record<ForecastLayer, number>;
+  /** Period the point plans for, when `date` has been moved back by the lead time for display. */
+  period?: string;
   // Financial metrics
   projectedRevenue?: number;
   projectedMargin?: number;
   inventoryValue?: number;
 }
 
+export type ModelComponentKey = 'level' | 'trend' | 'seasonal' | 'other';
+
+/** Model components followed by the adjustments applied after the model, in pipeline order. */
+export type DecompositionKey = ModelComponentKey | 'bias' | 'reconciliation' | 'market' | 'lifecycle' | 'scenario' | 'overrides';
+
+/** Contribution of each component to a forecast point, in units. */
+export type ForecastDecomposition = Record<DecompositionKey, number>;
+
+export interface ModelFit {
+  forecast: number[];
+  /** One-step-ahead in-sample fit aligned with the history; null where the model has no fit yet. */
+  fitted?: (number | null)[];
+  /** Per-step forecast standard errors for models with analytic intervals. */
+  stdErrors?: number[];
+  /** MA(infinity) weights used to propagate one-step residuals over the horizon. */
+  psiWeights?: number[];
+  /** Estimated driver effects for models with exogenous regressors. */
+  drivers?: DriverCoefficient[];
+  /** Fitted specification, e.g. "ARIMA(1,1,1)(0,1,1)[12]". */
+  label?: string;
+  /** Per-period demand standard deviation implied by the model, used to size safety stock. */
+  demandStdDev?: number;
+  /** Member weights when the fit is an ensemble. */
+  weights?: { method: ForecastMethodology; weight: number }[];
+  /** Additive decomposition for models that build the forecast from separate components. */
+  components?: ModelComponents;
+  /** Per-step split of the forecast; models without one get a generic split of the forecast path. */
+  decomposition?: Record<ModelComponentKey, number[]>;
+}
+
+export interface ModelComponents {
+  /** Each component covers the history followed by the forecast horizon. */
+  trend: number[];
+  seasonal: number[];
+  events: number[];
+  /** History indices where the trend slope changes, with the change in units per period. */
+  changepoints: { index: number; delta: number }[];
+  /** Estimated effect of each event, in units per period it touches. */
+  eventEffects: { name: string; effect: number }[];
+}
+
+export type EnsembleWeighting = 'mean' | 'median' | 'inverse-error';
+
+export interface EnsembleSpec {
+  members: ForecastMethodology[];
+  weighting: EnsembleWeighting;
+  /** One weight per member, normalised to sum to 1. */
+  weights: number[];
+}
+
+export type IntervalMethod = 'analytic' | 'empirical' | 'bootstrap';
+
+export type DriverKey = 'price' | 'promo' | 'marketingSpend' | 'macroIndex';
+
+/** One row of the uploaded driver file. */
+export interface DriverRecord {
+  date: string;
+  sku: string;
+  price?: number;
+  /** 1 when the SKU is on promotion, 0 otherwise. */
+  promo?: number;
+  marketingSpend?: number;
+  macroIndex?: number;
+}
+
+/** Driver values aligned to a series, one array per driver. */
+export type DriverValues = Partial<Record<DriverKey, number[]>>;
+
+export interface DriverSeries {
+  history: DriverValues;
+  /** Assumed driver values over the forecast horizon. */
+  future: DriverValues;
+}
+
+/** Planner assumption for a driver over a range of future periods. */
+export interface DriverScenario {
+  id: string;
+  /** SKU the assumption applies to, or 'ALL'. */
+  sku: string;
+  driver: DriverKey;
+  startPeriod: number;
+  endPeriod: number;
+  value: number;
+}
+
+export interface DriverCoefficient {
+  driver: DriverKey;
+  coefficient: number;
+  stdError: number;
+  tStat: number;
+  /** Elasticity at the means; for the promo flag, the relative lift while on promotion. */
+  elasticity: number;
+}
+
+export type ReconciliationMethod = 'bottom-up' | 'top-down' | 'ols' | 'mint';
+
+/** Analog launch curves for a new item, scaled and aligned on each analog's first sale. */
+export interface AnalogSpec {
+  /** Each analog's history from its first sale, with the bucket date of every value. */
+  curves: { sku: string; scale: number; values: number[]; dates: string[] }[];
+  /** Periods of own history after which the statistical model takes over. */
+  handover: number;
+  /** The new item's launch date, when known. */
+  launchDate?: string;
+}
+
+/** Syntetos-Boylan demand pattern from inter-demand interval (ADI) and size variability (CV²). */
+export type DemandClass = 'smooth' | 'erratic' | 'intermittent' | 'lumpy';
+
+/** How buckets with no sales inside a SKU's history are filled. */
+export type FillPolicy = 'zero' | 'interpolate';
+
+export type AnomalyDetector = 'rolling-mad' | 'stl';
+
+export type AnomalyStatus = 'pending' | 'accepted' | 'rejected' | 'overridden';
+
+/** A flagged history point awaiting (or carrying) a planner decision. */
+export interface AnomalyRecord {
+  /** `${sku}|${date}`, stable across re-detection so decisions survive reruns. */
+  id: string;
+  sku: string;
+  category: string;
+  date: string;
+  original: number;
+  /** Robust baseline value proposed as the replacement. */
+  suggested: number;
+  /** Distance from the baseline in robust standard deviations. */
+  score: number;
+  status: AnomalyStatus;
+  override?: number;
+}
+
+export type AnomalyReview = Pick<AnomalyRecord, 'status' | 'override'>;
+
+/** Consensus layers: the model's forecast, then the functions that adjust it. */
+export type OverrideLayer = 'sales' | 'marketing' | 'final';
+export type ForecastLayer = 'statistical' | OverrideLayer;
+export type OverrideStatus = 'draft' | 'submitted' | 'approved';
+/** `absolute` replaces the statistical quantity; `percent` adjusts it. */
+export type OverrideMode = 'absolute' | 'percent';
+export type OverrideReason = 'promotion' | 'customer-order' | 'market-intelligence' | 'supply-constraint' | 'new-listing' | 'other';
+
+/** One adjustment per SKU, period and layer; editing it sends it back to draft. */
+export interface ForecastOverride {
+  /** `${layer}|${sku}|${date}` */
+  id: string;
+  sku: string;
+  /** Forecast period, before any lead-time offset. */
+  date: string;
+  layer: OverrideLayer;
+  mode: OverrideMode;
+  value: number;
+  reason: OverrideReason;
+  note?: string;
+  author: string;
+  updatedAt: string;
+  status: OverrideStatus;
+}
+
+export interface OverrideAuditEntry {
+  overrideId: string;
+  action: 'saved' | 'submitted' | 'approved' | 'returned' | 'deleted';
+  author: string;
+  at: string;
+  /** Value and status after the action, e.g. "+10% · draft". */
+  detail: string;
+}
+
+export interface ForecastOptions {
+  ensemble?: EnsembleSpec;
+  drivers?: DriverSeries;
+  analog?: AnalogSpec;
+  /** Holidays and events used as regressors by models that support them. */
+  events?: ForecastEvent[];
+  intervals?: {
+    method: IntervalMethod;
+    /** Probabilities to report on every forecast point; defaults to P10/P50/P90. */
+    quantiles?: number[];
+    paths?: number;
+  };
+}
+
 export interface ForecastMetrics {
+  /** Mean of per-period absolute percentage errors; periods with zero actuals are skipped. */
   mape: number;
+  /** Total absolute error over total actuals. */
+  wape: number;
+  /** Mean of 2|F − A| / (|A| + |F|), bounded at 200%. */
+  smape: number;
+  /** Mean absolute error scaled by the in-sample seasonal-naive error. */
+  mase: number;
   rmse: number;
   bias: number;
   mad: number;
+  /** Cumulative error (forecast − actual) over MAD; beyond ±4 the forecast is persistently biased. */
+  trackingSignal: number;
+  /** Forecast value added: naive WAPE minus model WAPE, in points; positive when the model beats naive. */
+  fva: number;
+  /** 100 − WAPE, floored at 0. */
   accuracy: number;
+  /** Over-forecast units valued at unit cost: stock bought that would not sell. */
   holdingCostRisk: number;
+  /** Under-forecast units valued at selling price: demand that would go unserved. */
   stockoutRevenueRisk: number;
   totalValueAtRisk?: number;
 }
 
 export enum TimeInterval {
-  MONTHLY = 'monthly'
+  MONTHLY = 'monthly',
+  WEEKLY = 'weekly',
+  DAILY = 'daily'
 }
 
 export enum ForecastMethodology {
-  HOLT_WINTERS = 'Holt-Winters (Triple Exponential)',
+  AUTO = 'Auto (Best Fit)',
+  HOLT_WINTERS = 'Holt-Winters Multiplicative (ETS M,A,M)',
+  HOLT_WINTERS_ADDITIVE = 'Holt-Winters Additive (ETS A,A,A)',
+  HOLT_WINTERS_DAMPED = 'Holt-Winters Damped Multiplicative (ETS M,Ad,M)',
+  HOLT_WINTERS_ADDITIVE_DAMPED = 'Holt-Winters Damped Additive (ETS A,Ad,A)',
   PROPHET = 'Prophet-Inspired (Additive)',
-  ARIMA = 'ARIMA (Auto-Regressive)',
-  LINEAR = 'Linear Regression'
+  ARIMA = 'ARIMA (Seasonal Auto-Order)',
+  ARIMAX = 'Regression with ARIMA Errors (Drivers)',
+  LINEAR = 'Linear Regression',
+  CROSTON = 'Croston (Intermittent)',
+  SBA = 'Syntetos-Boylan Approximation (Intermittent)',
+  TSB = 'Teunter-Syntetos-Babai (Intermittent)',
+  ENSEMBLE = 'Ensemble (Weighted Blend)'
+}
+
+export enum SelectionMetric {
+  MAPE = 'MAPE',
+  WAPE = 'WAPE',
+  RMSE = 'RMSE',
+  MASE = 'MASE'
 }
 
 export enum AiProvider {
@@ -74,9 +333,12 @@ export enum AudienceType {
   EXECUTIVE = 'Executive Leadership'
 }
 
+export type BacktestWindow = 'expanding' | 'sliding';
+
 export interface Scenario {
   id: string;
   name: string;
+  /** Forecast month it applies to; 1 is the month of the first forecast period. */
   month: number;
   multiplier: number;
 }
@@ -88,14 +350,53 @@ export interface FilterState {
   category: string;
   confidenceLevel: number;
   methodology: ForecastMethodology;
+  interval: TimeInterval;
+  selectionMetric: SelectionMetric;
+  ensembleWeighting: EnsembleWeighting;
+  ensembleSize: number;
+  intervalMethod: IntervalMethod;
+  reconciliation: ReconciliationMethod;
   includeExternalTrends: boolean;
   globalLeadTime: number;
   globalServiceLevel: number;
+  defaultFillPolicy: FillPolicy;
+  /** Forecast each SKU with the methodology of its demand class instead of the primary model. */
+  classBasedModels: boolean;
   applyAnomalyCleaning: boolean;
+  anomalyDetector: AnomalyDetector;
+  anomalyThreshold: number;
   showLeadTimeOffset: boolean;
   aiProvider: AiProvider;
   // New Resiliency parameters
   supplierVolatility: number; // 0 to 1
+  // Rolling-origin backtest design
+  backtestOrigins: number;
+  backtestHorizon: number;
+  backtestWindow: BacktestWindow;
+  /** Scale each series' forecast by its backtest bias per lag before reconciliation. */
+  biasCorrection: boolean;
+}
+
+export interface SnapshotPoint {
+  date: string;
+  forecast: number;
+  lowerBound?: number;
+  upperBound?: number;
+}
+
+/** A committed forecast run, kept so it can be scored once its periods have actuals. */
+export interface ForecastSnapshot {
+  id: string;
+  version: number;
+  createdAt: string;
+  /** Last history period; lag k is the k-th period after it. */
+  origin: string;
+  methodology: ForecastMethodology;
+  label?: string;
+  settings: { filters: FilterState; horizon: number; industryPrompt: string };
+  skus: string[];
+  /** Forecast periods per series: 'ALL' for the roll-up, then one entry per SKU. */
+  series: Record<string, SnapshotPoint[]>;
 }
 
 export interface OnePagerData {
@@ -0,0 +1,119 @@
+import { AnalogSpec, DataPoint, ModelFit, ProductAttribute, TimeInterval } from '../types';
+import { SEASONAL_PERIODS } from './calendar';
+import { MIN_HISTORY_CYCLES } from './dataQuality';
+
+/**
+ * Like-item forecasting for launches. Each analog's history is cut at its
+ * first sale so period k is "k periods after launch" for every item; the new
+ * SKU reads its forecast off the scaled curves at its own age.
+ */
+
+export const ANALOG_MODEL = 'Analog (Like-Item)';
+
+/** Periods since the first non-zero sale; the full length when nothing has sold yet. */
+export const launchIndex = (values: number[]) => {
+  const first = values.findIndex(v => v > 0);
+  return first < 0 ? values.length : first;
+};
+
+export const launchAge = (values: number[]) => values.length - launchIndex(values);
+
+export const launchCurve = (values: number[]) => values.slice(launchIndex(values));
+
+/** Curve value at an age; past the analog's own history, its last cycle's average carries on. */
+const curveAt = (curve: number[], age: number, period: number) => {
+  if (age < curve.length) return curve[age];
+  const tail = curve.slice(-Math.min(period, curve.length));
+  return tail.reduce((a, b) => a + b, 0) / (tail.length || 1);
+};
+
+/** Period-to-period noise of a curve, as a standard deviation of one value. */
+const curveNoise = (curve: number[]) => {
+  if (curve.length < 3) return 0;
+  const diffs = curve.slice(1).map((v, i) => v - curve[i]);
+  const mean = diffs.reduce((a, b) => a + b, 0) / diffs.length;
+  return Math.sqrt(diffs.reduce((s, d) => s + (d - mean) ** 2, 0) / diffs.length / 2);
+};
+
+/**
+ * Analog specs for every attribute row that lists analogs, keyed by SKU.
+ * `history` should hold the analogs' full bucketed history, not just the
+ * planning window, so their launch is visible.
+ */
+export const buildAnalogSpecs = (
+  attributes: ProductAttribute[],
+  history: DataPoint[],
+  interval: TimeInterval
+): Map<string, AnalogSpec> => {
+  const bySku = new Map<string, DataPoint[]>();
+  history.forEach(d => bySku.set(d.sku, [...(bySku.get(d.sku) || []), d]));
+  const handover = MIN_HISTORY_CYCLES * SEASONAL_PERIODS[interval];
+
+  const specs = new Map<string, AnalogSpec>();
+  attributes.forEach(attr => {
+    const curves = (attr.analogs ?? [])
+      .filter(a => a.sku !== attr.sku && bySku.has(a.sku) && a.scale > 0)
+      .map(a => {
+        const rows = [...bySku.get(a.sku)!].sort((x, y) => x.date.localeCompare(y.date));
+        const start = launchIndex(rows.map(d => d.quantity));
+        return { sku: a.sku, scale: a.scale, values: rows.slice(start).map(d => d.quantity), dates: rows.slice(start).map(d => d.date) };
+      })
+      .filter(c => c.values.length > 0);
+    if (curves.length > 0) specs.set(attr.sku, { curves, handover, launchDate: attr.launchDate });
+  });
+  return specs;
+};
+
+/**
+ * Specs as they stood before `cutoff`: every curve ends at the last bucket
+ * before it, so a backtest origin never reads analog sales from its holdout.
+ */
+export const analogsAsOf = (specs: Map<string, AnalogSpec>, cutoff: string): Map<string, AnalogSpec> => {
+  const result = new Map<string, AnalogSpec>();
+  specs.forEach((spec, sku) => {
+    const curves = spec.curves
+      .map(c => {
+        const length = c.dates.filter(d => d < cutoff).length;
+        return { ...c, values: c.values.slice(0, length), dates: c.dates.slice(0, length) };
+      })
+      .filter(c => c.values.length > 0);
+    if (curves.length > 0) result.set(sku, { ...spec, curves });
+  });
+  return result;
+};
+
+/**
+ * Forecast from the average of the scaled analog curves at the item's age.
+ * Uncertainty combines disagreement between analogs with each analog's own
+ * period-to-period noise. An item that has not sold yet launches `delay`
+ * periods into the horizon and is zero until then.
+ */
+export const runAnalog = (values: number[], horizon: number, period: number, spec: AnalogSpec, delay = 0): ModelFit => {
+  const start = launchIndex(values);
+  const at = (age: number) => spec.curves.map(c => c.scale * curveAt(c.values, age, period));
+  const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+  const within = mean(spec.curves.map(c => c.scale * curveNoise(c.values)));
+
+  const forecast: number[] = [];
+  const stdErrors: number[] = [];
+  for (let h = 0; h < horizon; h++) {
+    if (h < delay) {
+      forecast.push(0);
+      stdErrors.push(0);
+      continue;
+    }
+    const predictions = at(values.length - start + h - delay);
+    const center = mean(predictions);
+    const between = mean(predictions.map(p => (p - center) ** 2));
+    forecast.push(Math.max(0, center));
+    stdErrors.push(Math.sqrt(between + within * within));
+  }
+
+  return {
+    forecast,
+    fitted: values.map((_, t) => (t < start ? null : mean(at(t - start)))),
+    stdErrors,
+    demandStdDev: stdErrors[Math.min(delay, horizon - 1)],
+    label: `${spec.curves.map(c => `${c.sku}×${c.scale}`).join(' + ')} · ${delay > 0 ? `launch in ${delay}` : `age ${values.length - start}`}`
+  };
+};
@@ -0,0 +1,124 @@
+import { AnomalyDetector, AnomalyRecord, AnomalyReview, DataPoint, TimeInterval } from '../types';
+import { SEASONAL_PERIODS } from './calendar';
+
+/**
+ * Per-SKU outlier detection on bucketed sales. Each series is scored against
+ * its own robust baseline (rolling median or seasonal decomposition) using a
+ * MAD-scaled distance; flagged points become reviewable anomaly log entries.
+ */
+
+export interface AnomalyConfig {
+  method: AnomalyDetector;
+  /** Robust z-score above which a point is flagged. */
+  threshold: number;
+  interval: TimeInterval;
+  /** Rolling-median window (odd). */
+  window?: number;
+}
+
+// Scales the MAD so it estimates the standard deviation under normality
+const MAD_SCALE = 1.4826;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const mad = (values: number[], center: number) => median(values.map(v => Math.abs(v - center)));
+
+export const anomalyKey = (sku: string, date: string) => `${sku}|${date}`;
+
+/** Baseline and spread per point from a centred rolling window. */
+const rollingBaseline = (values: number[], window: number) => {
+  const half = Math.floor(window / 2);
+  return values.map((_, t) => {
+    const slice = values.slice(Math.max(0, t - half), Math.min(values.length, t + half + 1));
+    const center = median(slice);
+    return { expected: center, spread: MAD_SCALE * mad(slice, center) };
+  });
+};
+
+/**
+ * Classical decomposition with robust pieces: centred rolling-median trend
+ * over one cycle, per-position median seasonal, and a single MAD over the
+ * remainder. Medians keep a spike from leaking into its neighbours' baseline.
+ */
+const seasonalBaseline = (values: number[], period: number) => {
+  const n = values.length;
+  const half = Math.floor(period / 2);
+  const trend: (number | null)[] = values.map((_, t) =>
+    t - half < 0 || t + half >= n ? null : median(values.slice(t - half, t + half + 1))
+  );
+  const firstTrend = trend.findIndex(v => v !== null);
+  const lastTrend = n - 1 - [...trend].reverse().findIndex(v => v !== null);
+  const filledTrend = trend.map((v, t) => v ?? (t < firstTrend ? trend[firstTrend]! : trend[lastTrend]!));
+
+  const seasonal = Array.from({ length: period }, (_, k) => {
+    const detrended = values.map((v, t) => ({ v: v - filledTrend[t], t })).filter(x => x.t % period === k).map(x => x.v);
+    return median(detrended);
+  });
+  const remainder = values.map((v, t) => v - filledTrend[t] - seasonal[t % period]);
+  const center = median(remainder);
+  const spread = MAD_SCALE * mad(remainder, center);
+  return values.map((_, t) => ({ expected: filledTrend[t] + seasonal[t % period] + center, spread }));
+};
+
+export const detectAnomalies = (data: DataPoint[], config: AnomalyConfig): AnomalyRecord[] => {
+  const { method, threshold, interval, window = 7 } = config;
+  const period = SEASONAL_PERIODS[interval];
+  const bySku = new Map<string, DataPoint[]>();
+  data.forEach(d => bySku.set(d.sku, [...(bySku.get(d.sku) || []), d]));
+
+  const log: AnomalyRecord[] = [];
+  bySku.forEach((rows, sku) => {
+    const series = [...rows].sort((a, b) => a.date.localeCompare(b.date));
+    const values = series.map(d => d.quantity);
+    if (values.length < 5) return;
+    const useSeasonal = method === 'stl' && values.length >= 2 * period;
+    const baseline = useSeasonal ? seasonalBaseline(values, period) : rollingBaseline(values, window);
+    // Floor the spread so flat stretches don't turn every small wiggle into an outlier
+    const floor = Math.max(1, 0.05 * median(values));
+
+    series.forEach((d, t) => {
+      const { expected, spread } = baseline[t];
+      const score = Math.abs(d.quantity - expected) / Math.max(spread, floor);
+      if (score < threshold) return;
+      log.push({
+        id: anomalyKey(sku, d.date),
+        sku,
+        category: d.category,
+        date: d.date,
+        original: d.quantity,
+        suggested: Math.max(0, Math.round(expected)),
+        score,
+        status: 'pending'
+      });
+    });
+  });
+  return log.sort((a, b) => b.score - a.score);
+};
+
+/** Detected anomalies with the planner's decisions laid over them. */
+export const mergeReviews = (detected: AnomalyRecord[], reviews: Record<string, AnomalyReview>): AnomalyRecord[] =>
+  detected.map(a => (reviews[a.id] ? { ...a, ...reviews[a.id] } : a));
+
+/**
+ * Value a logged point should carry into the forecast: the suggestion once
+ * accepted, the planner's figure when overridden, otherwise the original.
+ */
+export const correctedValue = (anomaly: AnomalyRecord) => {
+  if (anomaly.status === 'accepted') return anomaly.suggested;
+  if (anomaly.status === 'overridden' && anomaly.override !== undefined) return anomaly.override;
+  return anomaly.original;
+};
+
+export const applyAnomalyCorrections = (data: DataPoint[], log: AnomalyRecord[]): DataPoint[] => {
+  const corrections = new Map(log.filter(a => a.status === 'accepted' || a.status === 'overridden').map(a => [a.id, correctedValue(a)]));
+  if (corrections.size === 0) return data;
+  return data.map(d => {
+    const value = corrections.get(anomalyKey(d.sku, d.date));
+    return value === undefined ? d : { ...d, quantity: value };
+  });
+};
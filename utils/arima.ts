@@ -0,0 +1,261 @@
+import { nelderMead } from './optimize';
+import { seasonalStrength } from './seasonality';
+
+/**
+ * Seasonal ARIMA (p,d,q)(P,D,Q)[s] estimation by conditional sum of squares
+ * with automatic order selection.
+ */
+
+export interface ArimaOrder {
+  p: number;
+  d: number;
+  q: number;
+  P: number;
+  D: number;
+  Q: number;
+  s: number;
+}
+
+export type InformationCriterion = 'aic' | 'bic';
+
+export interface ArimaModel {
+  order: ArimaOrder;
+  ar: number[];
+  ma: number[];
+  sar: number[];
+  sma: number[];
+  includeMean: boolean;
+  mean: number;
+  sigma2: number;
+  logLik: number;
+  aic: number;
+  bic: number;
+  /** One-step-ahead fitted values on the original scale; null where differencing consumed the history. */
+  fitted: (number | null)[];
+  residuals: number[];
+  /** Internal state needed to forecast from the end of the sample. */
+  differenced: number[];
+  differencingStack: { series: number[]; lag: number }[];
+}
+
+export interface AutoArimaOptions {
+  seasonalPeriod?: number;
+  maxP?: number;
+  maxQ?: number;
+  maxSeasonalP?: number;
+  maxSeasonalQ?: number;
+  criterion?: InformationCriterion;
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / (values.length || 1);
+
+const difference = (values: number[], lag: number) => values.slice(lag).map((v, i) => v - values[i]);
+
+const polyMultiply = (a: number[], b: number[]) => {
+  const out = new Array(a.length + b.length - 1).fill(0);
+  a.forEach((x, i) => b.forEach((y, j) => { out[i + j] += x * y; }));
+  return out;
+};
+
+/** Lag polynomial 1 + sign * (c1 B^lag + c2 B^2lag + ...). */
+const lagPolynomial = (coefs: number[], lag: number, sign: 1 | -1) => {
+  const poly = new Array(coefs.length * lag + 1).fill(0);
+  poly[0] = 1;
+  coefs.forEach((c, i) => { poly[(i + 1) * lag] = sign * c; });
+  return poly;
+};
+
+/**
+ * Maps unconstrained values to partial autocorrelations in (-1, 1) and then to
+ * coefficients via Durbin-Levinson, so every candidate is stationary (or invertible).
+ */
+const toStationaryCoefficients = (raw: number[]) => {
+  const phi: number[] = [];
+  raw.forEach((x, k) => {
+    const r = 0.98 * Math.tanh(x);
+    const prev = phi.slice();
+    for (let j = 0; j < k; j++) phi[j] = prev[j] - r * prev[k - 1 - j];
+    phi[k] = r;
+  });
+  return phi;
+};
+
+/**
+ * KPSS level-stationarity statistic; values above 0.463 reject stationarity at 5%.
+ */
+const kpssStatistic = (values: number[]) => {
+  const n = values.length;
+  const m = mean(values);
+  const e = values.map(v => v - m);
+  let cum = 0, sumS2 = 0;
+  e.forEach(v => { cum += v; sumS2 += cum * cum; });
+  const lags = Math.floor(3 * Math.sqrt(n) / 13);
+  let lrv = e.reduce((s, v) => s + v * v, 0) / n;
+  for (let k = 1; k <= lags; k++) {
+    let acc = 0;
+    for (let t = k; t < n; t++) acc += e[t] * e[t - k];
+    lrv += (2 * (1 - k / (lags + 1)) * acc) / n;
+  }
+  return lrv > 0 ? sumS2 / (n * n * lrv) : 0;
+};
+
+interface ExpandedModel {
+  arFull: number[];
+  maFull: number[];
+}
+
+const expand = (ar: number[], ma: number[], sar: number[], sma: number[], s: number): ExpandedModel => {
+  const arPoly = polyMultiply(lagPolynomial(ar, 1, -1), lagPolynomial(sar, s, -1));
+  const maPoly = polyMultiply(lagPolynomial(ma, 1, 1), lagPolynomial(sma, s, 1));
+  return { arFull: arPoly.slice(1).map(c => -c), maFull: maPoly.slice(1) };
+};
+
+/** Conditional residuals, treating pre-sample deviations and shocks as zero. */
+const conditionalResiduals = (w: number[], mu: number, { arFull, maFull }: ExpandedModel) => {
+  const e = new Array(w.length).fill(0);
+  for (let t = 0; t < w.length; t++) {
+    let pred = 0;
+    for (let i = 0; i < arFull.length && i < t; i++) pred += arFull[i] * (w[t - 1 - i] - mu);
+    for (let j = 0; j < maFull.length && j < t; j++) pred += maFull[j] * e[t - 1 - j];
+    e[t] = w[t] - mu - pred;
+  }
+  return e;
+};
+
+/**
+ * Fits a fixed (p,d,q)(P,D,Q)[s] order by conditional least squares.
+ */
+export const fitArima = (values: number[], order: ArimaOrder): ArimaModel | null => {
+  const { p, d, q, P, D, Q, s } = order;
+  const differencingStack: { series: number[]; lag: number }[] = [];
+  let w = values.slice();
+  for (let i = 0; i < D; i++) { differencingStack.push({ series: w, lag: s }); w = difference(w, s); }
+  for (let i = 0; i < d; i++) { differencingStack.push({ series: w, lag: 1 }); w = difference(w, 1); }
+
+  const includeMean = d + D <= 1;
+  const nParams = p + q + P + Q + (includeMean ? 1 : 0);
+  if (w.length < nParams + 4) return null;
+
+  const mu = includeMean ? mean(w) : 0;
+  const split = (x: number[]) => ({
+    ar: toStationaryCoefficients(x.slice(0, p)),
+    ma: toStationaryCoefficients(x.slice(p, p + q)).map(c => -c),
+    sar: toStationaryCoefficients(x.slice(p + q, p + q + P)),
+    sma: toStationaryCoefficients(x.slice(p + q + P)).map(c => -c)
+  });
+  const sse = (x: number[]) => {
+    const { ar, ma, sar, sma } = split(x);
+    return conditionalResiduals(w, mu, expand(ar, ma, sar, sma, s)).reduce((acc, v) => acc + v * v, 0);
+  };
+
+  const start = new Array(p + q + P + Q).fill(0.1);
+  const { x } = nelderMead(sse, start, { maxIterations: 300 * Math.max(1, start.length) });
+  const { ar, ma, sar, sma } = split(x);
+  const residuals = conditionalResiduals(w, mu, expand(ar, ma, sar, sma, s));
+
+  const m = w.length;
+  const sigma2 = Math.max(residuals.reduce((acc, v) => acc + v * v, 0) / m, 1e-8);
+  const logLik = -0.5 * m * (Math.log(2 * Math.PI * sigma2) + 1);
+  const k = nParams + 1;
+
+  const offset = values.length - m;
+  const fitted = values.map((v, t) => (t < offset ? null : v - residuals[t - offset]));
+
+  return {
+    order, ar, ma, sar, sma, includeMean, mean: mu, sigma2, logLik,
+    aic: -2 * logLik + 2 * k,
+    bic: -2 * logLik + k * Math.log(m),
+    fitted, residuals, differenced: w, differencingStack
+  };
+};
+
+/**
+ * Searches the order grid after choosing differencing with a seasonal-strength
+ * check (D) and repeated KPSS tests (d), then keeps the best model by AIC or BIC.
+ */
+export const autoArima = (values: number[], options: AutoArimaOptions = {}): ArimaModel | null => {
+  const { seasonalPeriod = 12, maxP = 2, maxQ = 2, maxSeasonalP = 1, maxSeasonalQ = 1, criterion = 'aic' } = options;
+  const n = values.length;
+  const seasonal = seasonalPeriod > 1 && n >= 2 * seasonalPeriod + 6;
+  const s = seasonal ? seasonalPeriod : 1;
+
+  const D = seasonal && seasonalStrength(values, s) >= 0.64 ? 1 : 0;
+  let series = D ? difference(values, s) : values;
+  let d = 0;
+  while (d < 2 - D && series.length > 8 && kpssStatistic(series) > 0.463) {
+    series = difference(series, 1);
+    d++;
+  }
+
+  let best: ArimaModel | null = null;
+  for (let p = 0; p <= maxP; p++) {
+    for (let q = 0; q <= maxQ; q++) {
+      for (let P = 0; P <= (seasonal ? maxSeasonalP : 0); P++) {
+        for (let Q = 0; Q <= (seasonal ? maxSeasonalQ : 0); Q++) {
+          const model = fitArima(values, { p, d, q, P, D, Q, s });
+          if (model && (!best || model[criterion] < best[criterion])) best = model;
+        }
+      }
+    }
+  }
+  return best ?? fitArima(values, { p: 0, d: 0, q: 0, P: 0, D: 0, Q: 0, s: 1 });
+};
+
+/**
+ * MA(infinity) weights of the full model, differencing included.
+ */
+export const arimaPsiWeights = (model: ArimaModel, horizon: number) => {
+  const { order, ar, ma, sar, sma } = model;
+  let arPoly = polyMultiply(lagPolynomial(ar, 1, -1), lagPolynomial(sar, order.s, -1));
+  for (let i = 0; i < order.d; i++) arPoly = polyMultiply(arPoly, [1, -1]);
+  for (let i = 0; i < order.D; i++) arPoly = polyMultiply(arPoly, lagPolynomial([1], order.s, -1));
+  const a = arPoly.slice(1).map(c => -c);
+  const { maFull } = expand(ar, ma, sar, sma, order.s);
+
+  const psi = [1];
+  for (let j = 1; j < horizon; j++) {
+    let v = maFull[j - 1] ?? 0;
+    for (let i = 1; i <= Math.min(j, a.length); i++) v += a[i - 1] * psi[j - i];
+    psi.push(v);
+  }
+  return psi;
+};
+
+/**
+ * Point forecasts with their analytic standard errors.
+ */
+export const forecastArima = (model: ArimaModel, horizon: number) => {
+  const { differenced: w, residuals, mean: mu, order } = model;
+  const { arFull, maFull } = expand(model.ar, model.ma, model.sar, model.sma, order.s);
+
+  const wExt = w.slice();
+  const eExt = residuals.slice();
+  for (let h = 0; h < horizon; h++) {
+    const t = wExt.length;
+    let pred = mu;
+    for (let i = 0; i < arFull.length && t - 1 - i >= 0; i++) pred += arFull[i] * (wExt[t - 1 - i] - mu);
+    for (let j = 0; j < maFull.length && t - 1 - j >= 0; j++) pred += maFull[j] * eExt[t - 1 - j];
+    wExt.push(pred);
+    eExt.push(0);
+  }
+
+  let future = wExt.slice(w.length);
+  for (let i = model.differencingStack.length - 1; i >= 0; i--) {
+    const { series, lag } = model.differencingStack[i];
+    const ext = series.slice();
+    future.forEach(v => ext.push(v + ext[ext.length - lag]));
+    future = ext.slice(series.length);
+  }
+
+  const psi = arimaPsiWeights(model, horizon);
+  let cumulative = 0;
+  const stdErrors = psi.map(v => { cumulative += v * v; return Math.sqrt(model.sigma2 * cumulative); });
+  return { forecast: future, stdErrors };
+};
+
+export const describeArima = ({ order, includeMean, differencingStack }: ArimaModel) => {
+  const base = `ARIMA(${order.p},${order.d},${order.q})`;
+  const seasonal = order.s > 1 ? `(${order.P},${order.D},${order.Q})[${order.s}]` : '';
+  const constant = includeMean ? (differencingStack.length > 0 ? ' w/ drift' : ' w/ mean') : '';
+  return `${base}${seasonal}${constant}`;
+};
@@ -0,0 +1,311 @@
+import { DataPoint, ForecastMethodology, BacktestWindow, SelectionMetric, EnsembleSpec, EnsembleWeighting, TimeInterval, DriverSeries, ForecastEvent } from '../types';
+import { calculateForecast, calculateMetrics, seasonalNaiveScale, DEFAULT_ENSEMBLE } from './forecasting';
+import { computeEnsembleWeights, combineSeries } from './ensemble';
+import { SEASONAL_PERIODS } from './calendar';
+import { sliceDrivers } from './drivers';
+
+/**
+ * Rolling-origin evaluation: each model is refit at several forecast origins
+ * and scored over the same horizon, so accuracy is averaged over many
+ * windows instead of a single holdout.
+ */
+
+export interface BacktestConfig {
+  origins: number;
+  horizon: number;
+  window: BacktestWindow;
+  /** Periods between consecutive origins. */
+  step?: number;
+  /** Origins with less training history than this are dropped. */
+  minTrainSize?: number;
+  confidenceLevel?: number;
+  interval?: TimeInterval;
+  /** Drivers aligned with the full series; each origin projects its holdout's drivers from its own history. */
+  drivers?: DriverSeries;
+  /** Holiday and event calendar; dated, so every origin sees the same events. */
+  events?: ForecastEvent[];
+  /** Values the holding-cost and stockout risks; both default to 1 (units). */
+  unitCost?: number;
+  sellingPrice?: number;
+}
+
+export const SUMMARY_METRICS = [
+  'mape', 'wape', 'smape', 'mase', 'rmse', 'bias', 'mad', 'trackingSignal', 'fva', 'accuracy', 'holdingCostRisk', 'stockoutRevenueRisk'
+] as const;
+export type SummaryMetric = typeof SUMMARY_METRICS[number];
+
+export const METRIC_LABELS: Record<SummaryMetric, string> = {
+  mape: 'MAPE %',
+  wape: 'WAPE %',
+  smape: 'sMAPE %',
+  mase: 'MASE',
+  rmse: 'RMSE',
+  bias: 'Bias %',
+  mad: 'MAD',
+  trackingSignal: 'Tracking Signal',
+  fva: 'FVA (pts)',
+  accuracy: 'Accuracy %',
+  holdingCostRisk: 'Holding Cost Risk',
+  stockoutRevenueRisk: 'Stockout Revenue Risk'
+};
+
+export interface MetricSummary {
+  mean: number;
+  std: number;
+}
+
+export interface HorizonAccuracy {
+  lag: number;
+  mape: number;
+  accuracy: number;
+  rmse: number;
+  bias: number;
+}
+
+export interface ModelBacktest {
+  method: ForecastMethodology;
+  /** Fitted specification at the most recent origin. */
+  label?: string;
+  metrics: Record<SummaryMetric, MetricSummary>;
+  byHorizon: HorizonAccuracy[];
+  /** Forecast from the most recent origin, aligned with `latestDates`. */
+  latestForecast: number[];
+  /** Forecast made at every origin, oldest first. */
+  originForecasts: number[][];
+}
+
+export interface BacktestResult {
+  /** Last training date of every origin, oldest first. */
+  originDates: string[];
+  /** Training-set end index (exclusive) of every origin, aligned with `originDates`. */
+  originEnds: number[];
+  /** Actuals following every origin, aligned with `originForecasts`. */
+  originActuals: number[][];
+  /** Seasonal-naive MASE scale of every origin's training window. */
+  originScales: number[];
+  /** Naive benchmark (last training value carried forward) at every origin, for FVA. */
+  originNaive: number[][];
+  unitCost: number;
+  sellingPrice: number;
+  latestDates: string[];
+  latestActuals: number[];
+  models: ModelBacktest[];
+}
+
+const SELECTION_KEYS: Record<SelectionMetric, SummaryMetric> = {
+  [SelectionMetric.MAPE]: 'mape',
+  [SelectionMetric.WAPE]: 'wape',
+  [SelectionMetric.RMSE]: 'rmse',
+  [SelectionMetric.MASE]: 'mase'
+};
+
+const summarise = (values: number[]): MetricSummary => {
+  const n = values.length;
+  if (n === 0) return { mean: 0, std: 0 };
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  const std = n > 1 ? Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1)) : 0;
+  return { mean, std };
+};
+
+/**
+ * Training-set end indices (exclusive), oldest first. Every origin keeps a
+ * full horizon of actuals after it.
+ */
+export const getOriginIndices = (length: number, { origins, horizon, step = 1, minTrainSize = 6 }: BacktestConfig) => {
+  const indices: number[] = [];
+  for (let k = 0; k < origins; k++) {
+    const end = length - horizon - k * step;
+    if (end < Math.max(3, minTrainSize)) break;
+    indices.unshift(end);
+  }
+  return indices;
+};
+
+/**
+ * Training window of every origin, oldest first: from the start of the series
+ * (expanding) or as long as the first origin's (sliding).
+ */
+export const getOriginWindows = (length: number, config: BacktestConfig) => {
+  const ends = getOriginIndices(length, config);
+  return ends.map(end => ({ start: config.window === 'sliding' ? end - ends[0] : 0, end }));
+};
+
+type ScoringContext = Pick<BacktestResult, 'originActuals' | 'originScales' | 'originNaive' | 'unitCost' | 'sellingPrice'>;
+
+const scoreModel = (
+  method: ForecastMethodology,
+  label: string | undefined,
+  originForecasts: number[][],
+  { originActuals, originScales, originNaive, unitCost, sellingPrice }: ScoringContext
+): ModelBacktest => {
+  const perOrigin = Object.fromEntries(SUMMARY_METRICS.map(key => [key, [] as number[]])) as Record<SummaryMetric, number[]>;
+  const horizon = originActuals[0]?.length ?? 0;
+  const pairsByLag = Array.from({ length: horizon }, () => ({ actual: [] as number[], forecast: [] as number[] }));
+
+  originForecasts.forEach((forecast, k) => {
+    const actual = originActuals[k];
+    const m = calculateMetrics(actual, forecast, unitCost, sellingPrice, originScales[k], originNaive[k]);
+    SUMMARY_METRICS.forEach(key => perOrigin[key].push(m[key]));
+    forecast.forEach((f, i) => {
+      pairsByLag[i].actual.push(actual[i]);
+      pairsByLag[i].forecast.push(f);
+    });
+  });
+
+  const metrics = Object.fromEntries(SUMMARY_METRICS.map(key => [key, summarise(perOrigin[key])])) as Record<SummaryMetric, MetricSummary>;
+  const byHorizon = pairsByLag.map((pairs, i) => {
+    const m = calculateMetrics(pairs.actual, pairs.forecast, 1, 1);
+    return { lag: i + 1, mape: m.mape, accuracy: m.accuracy, rmse: m.rmse, bias: m.bias };
+  });
+
+  return { method, label, metrics, byHorizon, latestForecast: originForecasts[originForecasts.length - 1] ?? [], originForecasts };
+};
+
+export const runRollingBacktest = (
+  series: DataPoint[],
+  methods: ForecastMethodology[],
+  config: BacktestConfig
+): BacktestResult | null => {
+  const { horizon, confidenceLevel = 95, interval = TimeInterval.MONTHLY } = config;
+  const windows = getOriginWindows(series.length, config);
+  if (windows.length === 0) return null;
+
+  const ends = windows.map(w => w.end);
+  const starts = windows.map(w => w.start);
+  const trainSets = ends.map((end, k) => series.slice(starts[k], end));
+  const originActuals = ends.map(end => series.slice(end, end + horizon).map(d => d.quantity));
+  const context: ScoringContext = {
+    originActuals,
+    originScales: trainSets.map(train => seasonalNaiveScale(train.map(d => d.quantity), SEASONAL_PERIODS[interval])),
+    originNaive: trainSets.map(train => new Array(horizon).fill(train[train.length - 1].quantity)),
+    unitCost: config.unitCost ?? 1,
+    sellingPrice: config.sellingPrice ?? 1
+  };
+
+  const models = methods.map(method => {
+    let label: string | undefined;
+    const originForecasts = trainSets.map((train, k) => {
+      const drivers = sliceDrivers(config.drivers, starts[k], ends[k], horizon);
+      const run = calculateForecast(train, horizon, interval, confidenceLevel, method, { drivers, events: config.events });
+      label = run.fit?.label;
+      return run.points.filter(p => p.isForecast).map(p => p.forecast);
+    });
+    return scoreModel(method, label, originForecasts, context);
+  });
+
+  const latestEnd = ends[ends.length - 1];
+  return {
+    ...context,
+    originDates: ends.map(end => series[end - 1].date),
+    originEnds: ends,
+    latestDates: series.slice(latestEnd, latestEnd + horizon).map(d => d.date),
+    latestActuals: series.slice(latestEnd, latestEnd + horizon).map(d => d.quantity),
+    models
+  };
+};
+
+// The `size` best models by score, weighted by the chosen rule; null when none has a finite score
+const rankMembers = (scores: { method: ForecastMethodology; score: number }[], weighting: EnsembleWeighting, size: number): EnsembleSpec | null => {
+  const ranked = scores
+    .filter(m => m.method !== ForecastMethodology.ENSEMBLE && Number.isFinite(m.score))
+    .sort((a, b) => a.score - b.score)
+    .slice(0, Math.max(1, size));
+  if (ranked.length === 0) return null;
+  return { members: ranked.map(m => m.method), weighting, weights: computeEnsembleWeights(ranked.map(m => m.score), weighting) };
+};
+
+/**
+ * Ensemble members and weights from a backtest: the `size` best models by the
+ * selection metric, weighted by the chosen rule.
+ */
+export const buildEnsembleSpec = (
+  backtest: BacktestResult | null,
+  metric: SelectionMetric,
+  weighting: EnsembleWeighting,
+  size: number
+): EnsembleSpec => {
+  const key = SELECTION_KEYS[metric];
+  const scores = (backtest?.models || []).map(m => ({ method: m.method, score: m.metrics[key].mean }));
+  return rankMembers(scores, weighting, size) ?? DEFAULT_ENSEMBLE;
+};
+
+/**
+ * Adds the ensemble to a backtest. At every origin its members and weights are
+ * refit, as in `buildEnsembleSpec`, on the earlier origins' forecasts of the
+ * periods already observed by then, so the ensemble is scored out of sample
+ * like the other models. The first origin blends the default members equally.
+ */
+export const withEnsembleBacktest = (backtest: BacktestResult | null, spec: EnsembleSpec, metric: SelectionMetric): BacktestResult | null => {
+  if (!backtest) return null;
+  const key = SELECTION_KEYS[metric];
+  const { originEnds, originActuals, originScales, originNaive, unitCost, sellingPrice } = backtest;
+  const bases = backtest.models.filter(m => m.method !== ForecastMethodology.ENSEMBLE);
+  const defaults = bases.filter(m => DEFAULT_ENSEMBLE.members.includes(m.method));
+
+  const originForecasts: number[][] = [];
+  for (let k = 0; k < originEnds.length; k++) {
+    // Earlier origins, each scored on the part of its holdout that lies before this origin
+    const observed = originEnds.slice(0, k).map(end => originEnds[k] - end);
+    const fitted = k > 0 ? rankMembers(bases.map(m => ({
+      method: m.method,
+      score: observed.reduce((sum, n, j) => sum + calculateMetrics(
+        originActuals[j].slice(0, n), m.originForecasts[j].slice(0, n), unitCost, sellingPrice, originScales[j], originNaive[j].slice(0, n)
+      )[key], 0) / k
+    })), spec.weighting, spec.members.length) : null;
+    const members = fitted ? fitted.members.map(method => bases.find(m => m.method === method)!) : defaults;
+    if (members.length === 0) return backtest;
+    const weights = fitted ? fitted.weights : computeEnsembleWeights(members.map(() => 1), spec.weighting);
+    originForecasts.push(combineSeries(members.map(m => m.originForecasts[k]), weights, spec.weighting).map(v => Math.round(v ?? 0)));
+  }
+  const ensemble = scoreModel(
+    ForecastMethodology.ENSEMBLE,
+    `${spec.members.length} members · ${spec.weighting} · refit per origin`,
+    originForecasts,
+    backtest
+  );
+  return { ...backtest, models: [...backtest.models.filter(m => m.method !== ForecastMethodology.ENSEMBLE), ensemble] };
+};
+
+export interface ModelSelection {
+  method: ForecastMethodology;
+  metric: SelectionMetric;
+  /** Mean backtest score of the winner; null when no backtest could be run. */
+  score: number | null;
+  runnerUp?: { method: ForecastMethodology; score: number };
+  reason: string;
+}
+
+const formatScore = (metric: SelectionMetric, score: number) =>
+  metric === SelectionMetric.RMSE ? score.toFixed(0) : metric === SelectionMetric.MASE ? score.toFixed(2) : `${score.toFixed(1)}%`;
+
+/**
+ * Picks the model with the lowest mean backtest error on the chosen metric.
+ */
+export const selectModel = (
+  backtest: BacktestResult | null,
+  metric: SelectionMetric,
+  fallback: ForecastMethodology = ForecastMethodology.HOLT_WINTERS
+): ModelSelection => {
+  const key = SELECTION_KEYS[metric];
+  const ranked = (backtest?.models || [])
+    .filter(m => Number.isFinite(m.metrics[key].mean))
+    .sort((a, b) => a.metrics[key].mean - b.metrics[key].mean);
+
+  if (!backtest || ranked.length === 0) {
+    return { method: fallback, metric, score: null, reason: `Not enough history to backtest; defaulted to ${fallback.split(' (')[0]}.` };
+  }
+
+  const [winner, second] = ranked;
+  const score = winner.metrics[key].mean;
+  const origins = backtest.originDates.length;
+  let reason = `Lowest mean ${metric} (${formatScore(metric, score)}) across ${origins} backtest origin${origins === 1 ? '' : 's'}`;
+  if (second) reason += `; runner-up ${second.method.split(' (')[0]} at ${formatScore(metric, second.metrics[key].mean)}`;
+
+  return {
+    method: winner.method,
+    metric,
+    score,
+    runnerUp: second ? { method: second.method, score: second.metrics[key].mean } : undefined,
+    reason: `${reason}.`
+  };
+};
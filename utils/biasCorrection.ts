@@ -0,0 +1,68 @@
+import { ForecastRun } from './forecasting';
+import { OriginErrors } from './reconcile';
+import { scalePoint } from './decomposition';
+
+/**
+ * Forecast bias correction. Each series' rolling-backtest errors give a
+ * relative bias per lag, (forecast − actual) / forecast. The estimate is
+ * shrunk towards zero by how well the origins agree on it, so a bias the
+ * origins disagree about is mostly ignored; the forward forecast is then
+ * scaled by (1 − bias). Lags beyond the backtest horizon reuse the last one.
+ */
+
+export interface LagBias {
+  lag: number;
+  origins: number;
+  /** Mean relative bias before shrinkage; positive when the model runs high. */
+  raw: number;
+  /** Share of the raw bias kept: 0 = pure noise, 1 = consistent bias. */
+  weight: number;
+  applied: number;
+}
+
+/** Largest relative correction applied, however consistent the bias. */
+export const MAX_BIAS_CORRECTION = 0.5;
+
+const MIN_ORIGINS = 2;
+
+/**
+ * Per-lag bias of one series. The shrinkage weight is ē² / (ē² + s²/nₑ), the
+ * normal-means estimate of how much of the mean origin error is signal.
+ * Origins one period apart share most of their training data, and their
+ * lag-h errors are correlated over h periods, so the effective number of
+ * independent origins is taken as nₑ = n / h: longer lags shrink harder.
+ */
+export const estimateLagBias = ({ actual, forecast }: OriginErrors): LagBias[] => {
+  const horizon = Math.max(0, ...forecast.map(f => f.length));
+  return Array.from({ length: horizon }, (_, h) => {
+    const pairs = forecast.flatMap((f, k) => (f[h] !== undefined && actual[k]?.[h] !== undefined ? [{ f: f[h], a: actual[k][h] }] : []));
+    const n = pairs.length;
+    const level = pairs.reduce((s, p) => s + p.f, 0) / (n || 1);
+    if (n < MIN_ORIGINS || level <= 0) return { lag: h + 1, origins: n, raw: 0, weight: 0, applied: 0 };
+    const errors = pairs.map(p => (p.f - p.a) / level);
+    const mean = errors.reduce((a, b) => a + b, 0) / n;
+    const variance = errors.reduce((s, e) => s + (e - mean) ** 2, 0) / (n - 1);
+    const effective = Math.max(1, n / (h + 1));
+    const weight = mean * mean + variance / effective > 0 ? (mean * mean) / (mean * mean + variance / effective) : 0;
+    const applied = Math.max(-MAX_BIAS_CORRECTION, Math.min(MAX_BIAS_CORRECTION, weight * mean));
+    return { lag: h + 1, origins: n, raw: mean, weight, applied };
+  });
+};
+
+export const estimateBias = (errors: Map<string, OriginErrors>): Map<string, LagBias[]> =>
+  new Map(Array.from(errors.entries()).map(([id, e]) => [id, estimateLagBias(e)]));
+
+/**
+ * Debiased copies of the runs: the base forecast and its points are scaled per
+ * lag, and the change is booked as bias correction in the decomposition.
+ */
+export const correctRuns = (runs: Map<string, ForecastRun>, bias: Map<string, LagBias[]>): Map<string, ForecastRun> =>
+  new Map(Array.from(runs.entries()).map(([id, run]) => {
+    const lags = bias.get(id) ?? [];
+    if (!run.fit || lags.every(l => l.applied === 0)) return [id, run];
+    const factor = (step: number) => 1 - (lags[Math.min(step, lags.length - 1)]?.applied ?? 0);
+
+    let step = 0;
+    const points = run.points.map(p => (p.isForecast ? scalePoint(p, 'bias', factor(step++)) : p));
+    return [id, { ...run, points, fit: { ...run.fit, forecast: run.fit.forecast.map((v, i) => Math.max(0, v * factor(i))) } }];
+  }));
@@ -0,0 +1,107 @@
+import { DataPoint, TimeInterval } from '../types';
+
+/**
+ * Time-bucket helpers shared by the forecasting pipeline. Dates are
+ * ISO `YYYY-MM-DD` strings handled in UTC so buckets never shift with the
+ * browser's time zone.
+ */
+
+/** Seasonal cycle length in periods for each bucket size. */
+export const SEASONAL_PERIODS: Record<TimeInterval, number> = {
+  [TimeInterval.MONTHLY]: 12,
+  [TimeInterval.WEEKLY]: 52,
+  [TimeInterval.DAILY]: 7
+};
+
+/** Days per period, used to convert lead times (in days) into forecast periods. */
+export const DAYS_PER_PERIOD: Record<TimeInterval, number> = {
+  [TimeInterval.MONTHLY]: 30,
+  [TimeInterval.WEEKLY]: 7,
+  [TimeInterval.DAILY]: 1
+};
+
+/** Short unit suffix for horizon and lag labels. */
+export const PERIOD_SUFFIX: Record<TimeInterval, string> = {
+  [TimeInterval.MONTHLY]: 'M',
+  [TimeInterval.WEEKLY]: 'W',
+  [TimeInterval.DAILY]: 'D'
+};
+
+const toIso = (d: Date) => d.toISOString().split('T')[0];
+
+/**
+ * First day of the bucket containing `date`: the 1st of the month, the
+ * Monday of the ISO week, or the day itself.
+ */
+export const bucketStart = (date: string, interval: TimeInterval): string => {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  if (interval === TimeInterval.MONTHLY) d.setUTCDate(1);
+  if (interval === TimeInterval.WEEKLY) d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return toIso(d);
+};
+
+export const addPeriods = (date: string, interval: TimeInterval, steps: number): string => {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  if (interval === TimeInterval.MONTHLY) d.setUTCMonth(d.getUTCMonth() + steps);
+  else d.setUTCDate(d.getUTCDate() + steps * (interval === TimeInterval.WEEKLY ? 7 : 1));
+  return toIso(d);
+};
+
+/**
+ * Re-buckets raw rows to the chosen interval, summing quantities per SKU and bucket.
+ */
+export const bucketData = (data: DataPoint[], interval: TimeInterval): DataPoint[] => {
+  const map = new Map<string, DataPoint>();
+  data.forEach(d => {
+    const date = bucketStart(d.date, interval);
+    const key = `${d.sku}|${date}`;
+    const existing = map.get(key);
+    if (existing) existing.quantity += d.quantity;
+    else map.set(key, { ...d, date });
+  });
+  return Array.from(map.values()).sort((a, b) => a.date.localeCompare(b.date) || a.sku.localeCompare(b.sku));
+};
+
+/**
+ * Sums bucketed rows into one series on a continuous calendar; buckets with
+ * no sales between the first and last observation are zero demand.
+ */
+export const toContinuousSeries = (data: DataPoint[], interval: TimeInterval): DataPoint[] => {
+  if (data.length === 0) return [];
+  const totals = new Map<string, number>();
+  data.forEach(d => {
+    const date = bucketStart(d.date, interval);
+    totals.set(date, (totals.get(date) || 0) + d.quantity);
+  });
+  const dates = Array.from(totals.keys()).sort();
+  const series: DataPoint[] = [];
+  for (let date = dates[0]; date <= dates[dates.length - 1]; date = addPeriods(date, interval, 1)) {
+    series.push({ date, quantity: totals.get(date) || 0, sku: 'ALL', category: 'ALL' });
+  }
+  return series;
+};
+
+/**
+ * Splits bucketed rows into one continuous series per SKU. Every SKU shares
+ * the calendar of the whole selection so their forecasts line up for roll-up.
+ */
+export const splitBySku = (data: DataPoint[], interval: TimeInterval): Map<string, DataPoint[]> => {
+  const result = new Map<string, DataPoint[]>();
+  if (data.length === 0) return result;
+  const dates = data.map(d => bucketStart(d.date, interval)).sort();
+  const calendar: string[] = [];
+  for (let date = dates[0]; date <= dates[dates.length - 1]; date = addPeriods(date, interval, 1)) calendar.push(date);
+
+  const bySku = new Map<string, { category: string; totals: Map<string, number> }>();
+  data.forEach(d => {
+    const entry = bySku.get(d.sku) ?? { category: d.category, totals: new Map<string, number>() };
+    const date = bucketStart(d.date, interval);
+    entry.totals.set(date, (entry.totals.get(date) || 0) + d.quantity);
+    bySku.set(d.sku, entry);
+  });
+  Array.from(bySku.keys()).sort().forEach(sku => {
+    const { category, totals } = bySku.get(sku)!;
+    result.set(sku, calendar.map(date => ({ date, quantity: totals.get(date) || 0, sku, category })));
+  });
+  return result;
+};
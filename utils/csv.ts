@@ -0,0 +1,31 @@
+import { DataPoint, InventoryLevel, ProductAttribute, DriverRecord } from '../types';
+
+/**
+ * Parsers for the upload files, shared by the dashboard and the CLI. The first
+ * line is a header and lines without a comma are skipped; unreadable numbers
+ * fall back to the defaults below.
+ */
+
+const rows = (text: string) => text.split('\n').slice(1).filter(l => l.includes(',')).map(l => l.split(','));
+
+/** date,sku,category,quantity */
+export const parseSalesCSV = (text: string): DataPoint[] =>
+  rows(text).map(p => ({ date: p[0].trim(), sku: p[1].trim(), category: p[2].trim(), quantity: parseInt(p[3].trim()) || 0 }));
+
+/** sku,on_hand */
+export const parseInventoryCSV = (text: string, lastUpdated: string = new Date().toISOString()): InventoryLevel[] =>
+  rows(text).map(p => ({ sku: p[0].trim(), onHand: parseInt(p[1].trim()) || 0, lastUpdated }));
+
+/** sku,category,lead_time_days,unit_cost,selling_price,service_level[,analogs][,end_of_life][,launch_date] */
+export const parseAttributesCSV = (text: string): ProductAttribute[] =>
+  rows(text).map(p => {
+    // Optional analog column: "SKU-101:0.8;SKU-205" (scale defaults to 1)
+    const analogs = (p[6] || '').split(';').map(a => a.trim()).filter(Boolean).map(a => { const [sku, scale] = a.split(':'); return { sku: sku.trim(), scale: parseFloat(scale) || 1 }; });
+    return { sku: p[0].trim(), category: p[1].trim(), leadTimeDays: parseInt(p[2].trim()) || 30, unitCost: parseFloat(p[3].trim()) || 10, sellingPrice: parseFloat(p[4].trim()) || 15, serviceLevel: parseFloat(p[5].trim()) || 0.95, analogs: analogs.length > 0 ? analogs : undefined, endOfLifeDate: p[7]?.trim() || undefined, launchDate: p[8]?.trim() || undefined } as ProductAttribute;
+  });
+
+/** date,sku,price,promo,marketing_spend,macro_index; blank cells mean "not recorded" */
+export const parseDriversCSV = (text: string): DriverRecord[] => {
+  const num = (v?: string) => (v === undefined || v.trim() === '' || isNaN(parseFloat(v)) ? undefined : parseFloat(v));
+  return rows(text).map(p => ({ date: p[0].trim(), sku: p[1].trim(), price: num(p[2]), promo: num(p[3]), marketingSpend: num(p[4]), macroIndex: num(p[5]) } as DriverRecord));
+};
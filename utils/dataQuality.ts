@@ -0,0 +1,102 @@
+import { DataPoint, FillPolicy, TimeInterval } from '../types';
+import { addPeriods, bucketStart, SEASONAL_PERIODS } from './calendar';
+
+/**
+ * Calendar normalisation ahead of forecasting. Raw rows are bucketed, repeated
+ * SKU/bucket rows are summed, and every SKU gets a complete calendar from its
+ * first sale to the end of the selection so models never see a compressed
+ * series. Buckets after a SKU's last sale are zero demand under any policy, so
+ * a discontinued SKU ends in zeros rather than stopping short.
+ */
+
+export interface FilledPeriod {
+  date: string;
+  value: number;
+}
+
+export interface SeriesQuality {
+  sku: string;
+  category: string;
+  firstDate: string;
+  /** Last bucket of the selection, which can be after the SKU's last sale. */
+  lastDate: string;
+  /** Buckets from the first sale to the end of the selection, inclusive. */
+  periods: number;
+  /** Buckets with at least one raw row. */
+  observed: number;
+  /** Raw rows repeating a SKU/date already seen, summed into it. */
+  duplicates: number;
+  policy: FillPolicy;
+  fills: FilledPeriod[];
+  /** Fewer than two seasonal cycles of history. */
+  tooShort: boolean;
+}
+
+export interface NormalizedHistory {
+  data: DataPoint[];
+  quality: SeriesQuality[];
+}
+
+/** History needed before seasonal models have two full cycles to learn from. */
+export const MIN_HISTORY_CYCLES = 2;
+
+/** Straight line between the observed buckets either side of each gap. */
+const interpolate = (values: (number | null)[]): number[] => {
+  const result = values.map(v => v ?? 0);
+  let prev = -1;
+  values.forEach((v, t) => {
+    if (v === null) return;
+    if (prev >= 0 && t - prev > 1) {
+      for (let k = prev + 1; k < t; k++) result[k] = Math.round(values[prev]! + ((values[t]! - values[prev]!) * (k - prev)) / (t - prev));
+    }
+    prev = t;
+  });
+  return result;
+};
+
+export const normalizeHistory = (
+  data: DataPoint[],
+  interval: TimeInterval,
+  policies: Record<string, FillPolicy> = {},
+  defaultPolicy: FillPolicy = 'zero'
+): NormalizedHistory => {
+  const bySku = new Map<string, { category: string; totals: Map<string, number>; rawDates: Set<string>; rows: number }>();
+  data.forEach(d => {
+    const entry = bySku.get(d.sku) ?? { category: d.category, totals: new Map<string, number>(), rawDates: new Set<string>(), rows: 0 };
+    const date = bucketStart(d.date, interval);
+    entry.totals.set(date, (entry.totals.get(date) || 0) + d.quantity);
+    entry.rawDates.add(d.date.slice(0, 10));
+    entry.rows++;
+    bySku.set(d.sku, entry);
+  });
+
+  const selectionEnd = Array.from(bySku.values()).reduce((end, e) => Array.from(e.totals.keys()).reduce((a, b) => (b > a ? b : a), end), '');
+  const rows: DataPoint[] = [];
+  const quality: SeriesQuality[] = [];
+  Array.from(bySku.keys()).sort().forEach(sku => {
+    const { category, totals, rawDates, rows: rawRows } = bySku.get(sku)!;
+    const observedDates = Array.from(totals.keys()).sort();
+    const calendar: string[] = [];
+    for (let date = observedDates[0]; date <= selectionEnd; date = addPeriods(date, interval, 1)) calendar.push(date);
+
+    const policy = policies[sku] ?? defaultPolicy;
+    const raw = calendar.map(date => (totals.has(date) ? totals.get(date)! : null));
+    const values = policy === 'interpolate' ? interpolate(raw) : raw.map(v => v ?? 0);
+
+    calendar.forEach((date, t) => rows.push({ date, sku, category, quantity: values[t] }));
+    quality.push({
+      sku,
+      category,
+      firstDate: calendar[0],
+      lastDate: calendar[calendar.length - 1],
+      periods: calendar.length,
+      observed: observedDates.length,
+      duplicates: rawRows - rawDates.size,
+      policy,
+      fills: calendar.map((date, t) => ({ date, value: values[t] })).filter((_, t) => raw[t] === null),
+      tooShort: calendar.length < MIN_HISTORY_CYCLES * SEASONAL_PERIODS[interval]
+    });
+  });
+
+  return { data: rows.sort((a, b) => a.date.localeCompare(b.date) || a.sku.localeCompare(b.sku)), quality };
+};
@@ -0,0 +1,108 @@
+import { DecompositionKey, ForecastDecomposition, ForecastPoint, ModelComponentKey } from '../types';
+import { classicalDecomposition } from './seasonality';
+
+/**
+ * Forecast explainability. A model's forecast is split into level, trend,
+ * seasonality and other effects; every later stage (bias correction,
+ * reconciliation, market multiplier, end of life, scenario, manual overrides) records the change it
+ * made, so the parts of a point always add up to the quantity planned.
+ */
+
+export const MODEL_COMPONENT_KEYS: ModelComponentKey[] = ['level', 'trend', 'seasonal', 'other'];
+
+export const DECOMPOSITION_KEYS: DecompositionKey[] = [...MODEL_COMPONENT_KEYS, 'bias', 'reconciliation', 'market', 'lifecycle', 'scenario', 'overrides'];
+
+export const DECOMPOSITION_LABELS: Record<DecompositionKey, string> = {
+  level: 'Level',
+  trend: 'Trend',
+  seasonal: 'Seasonality',
+  other: 'Events, Drivers & Floor',
+  bias: 'Bias Correction',
+  reconciliation: 'Reconciliation',
+  market: 'Market Multiplier',
+  lifecycle: 'End of Life',
+  scenario: 'Scenario Multiplier',
+  overrides: 'Manual Overrides'
+};
+
+/**
+ * Generic split for models without structural components: a straight line
+ * through the forecast path gives the level (its value at the first step) and
+ * the trend, and what the line misses is the seasonal pattern.
+ */
+export const decomposePath = (forecast: number[]): Record<ModelComponentKey, number[]> => {
+  const n = forecast.length;
+  const hMean = (n + 1) / 2;
+  const fMean = forecast.reduce((a, b) => a + b, 0) / (n || 1);
+  let sxy = 0, sxx = 0;
+  forecast.forEach((f, i) => { sxy += (i + 1 - hMean) * (f - fMean); sxx += (i + 1 - hMean) ** 2; });
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const line = (h: number) => fMean + slope * (h - hMean);
+  return {
+    level: forecast.map(() => line(1)),
+    trend: forecast.map((_, i) => line(i + 1) - line(1)),
+    seasonal: forecast.map((f, i) => f - line(i + 1)),
+    other: forecast.map(() => 0)
+  };
+};
+
+/**
+ * Split for models whose seasonality is implicit (seasonal ARIMA): the
+ * seasonal part is the history's classical seasonal profile, the level is the
+ * last moving-average trend, and the trend is what remains.
+ */
+export const decomposeSeasonalPath = (forecast: number[], values: number[], period: number): Record<ModelComponentKey, number[]> => {
+  if (period < 2 || values.length < 2 * period) return decomposePath(forecast);
+  const { profile, lastTrend } = classicalDecomposition(values, period);
+  const seasonal = forecast.map((_, h) => profile[(values.length + h) % period]);
+  return {
+    level: forecast.map(() => lastTrend),
+    trend: forecast.map((f, h) => f - lastTrend - seasonal[h]),
+    seasonal,
+    other: forecast.map(() => 0)
+  };
+};
+
+/**
+ * Decomposition of one point from the model components at step `h`. Whatever
+ * separates them from the published (floored, rounded) forecast lands in `other`.
+ */
+export const pointDecomposition = (parts: Record<ModelComponentKey, number[]>, h: number, forecast: number): ForecastDecomposition => {
+  const model = Object.fromEntries(MODEL_COMPONENT_KEYS.map(k => [k, parts[k][h] ?? 0])) as Record<ModelComponentKey, number>;
+  const modelled = MODEL_COMPONENT_KEYS.reduce((s, k) => s + model[k], 0);
+  return { ...model, other: model.other + forecast - modelled, bias: 0, reconciliation: 0, market: 0, lifecycle: 0, scenario: 0, overrides: 0 };
+};
+
+/** Books the change a pipeline stage made to a point's quantity against that stage. */
+export const shiftDecomposition = (decomposition: ForecastDecomposition | undefined, key: DecompositionKey, delta: number) =>
+  decomposition && delta !== 0 ? { ...decomposition, [key]: decomposition[key] + delta } : decomposition;
+
+const mapBounds = (p: ForecastPoint, move: (v: number) => number) => ({
+  lowerBound: p.lowerBound === undefined ? undefined : move(p.lowerBound),
+  upperBound: p.upperBound === undefined ? undefined : move(p.upperBound),
+  quantiles: p.quantiles && Object.fromEntries(Object.entries(p.quantiles).map(([k, v]) => [k, move(v)]))
+});
+
+/**
+ * A forecast point scaled by a stage (bias correction, market multiplier, end
+ * of life): the forecast, bounds and quantiles take the same factor, rounded
+ * and floored at zero, and the change is booked against the stage.
+ */
+export const scalePoint = (p: ForecastPoint, key: DecompositionKey, factor: number): ForecastPoint => {
+  const move = (v: number) => Math.max(0, Math.round(v * factor));
+  const forecast = move(p.forecast);
+  return { ...p, forecast, decomposition: shiftDecomposition(p.decomposition, key, forecast - p.forecast), ...mapBounds(p, move) };
+};
+
+/**
+ * A forecast point moved by a number of units (reconciliation, supersession
+ * hand-over, overrides): the bounds and quantiles shift with it.
+ */
+export const shiftPoint = (p: ForecastPoint, key: DecompositionKey, delta: number): ForecastPoint => {
+  const move = (v: number) => Math.max(0, Math.round(v + delta));
+  const forecast = move(p.forecast);
+  return { ...p, forecast, decomposition: shiftDecomposition(p.decomposition, key, forecast - p.forecast), ...mapBounds(p, move) };
+};
+
+export const sumDecompositions = (parts: ForecastDecomposition[]): ForecastDecomposition =>
+  Object.fromEntries(DECOMPOSITION_KEYS.map(k => [k, parts.reduce((s, d) => s + d[k], 0)])) as ForecastDecomposition;
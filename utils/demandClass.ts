@@ -0,0 +1,49 @@
+import { DemandClass, ForecastMethodology } from '../types';
+import { launchCurve } from './analogs';
+
+/**
+ * Syntetos-Boylan demand classification. ADI is the average number of
+ * periods between non-zero demands; CV² is the squared coefficient of
+ * variation of the non-zero demand sizes.
+ */
+
+export const ADI_CUTOFF = 1.32;
+export const CV2_CUTOFF = 0.49;
+
+export interface DemandProfile {
+  adi: number;
+  cv2: number;
+  demandClass: DemandClass;
+  /** Non-zero periods the statistics were computed from. */
+  demandPeriods: number;
+}
+
+/** Starting methodology per class; planners can change these and override single SKUs. */
+export const DEFAULT_CLASS_METHODS: Record<DemandClass, ForecastMethodology> = {
+  smooth: ForecastMethodology.HOLT_WINTERS,
+  erratic: ForecastMethodology.HOLT_WINTERS_ADDITIVE_DAMPED,
+  intermittent: ForecastMethodology.SBA,
+  lumpy: ForecastMethodology.TSB
+};
+
+export const DEMAND_CLASSES: DemandClass[] = ['smooth', 'erratic', 'intermittent', 'lumpy'];
+
+/**
+ * Classifies a series from its first sale onwards, so zeros before an
+ * item's launch do not count as intermittency.
+ */
+export const classifyDemand = (values: number[]): DemandProfile => {
+  const active = launchCurve(values);
+  const sizes = active.filter(v => v > 0);
+  if (sizes.length === 0) return { adi: Infinity, cv2: 0, demandClass: 'lumpy', demandPeriods: 0 };
+
+  const adi = active.length / sizes.length;
+  const mean = sizes.reduce((a, b) => a + b, 0) / sizes.length;
+  const variance = sizes.reduce((s, v) => s + (v - mean) ** 2, 0) / sizes.length;
+  const cv2 = variance / (mean * mean);
+
+  const intermittent = adi >= ADI_CUTOFF;
+  const variable = cv2 >= CV2_CUTOFF;
+  const demandClass: DemandClass = intermittent ? (variable ? 'lumpy' : 'intermittent') : variable ? 'erratic' : 'smooth';
+  return { adi, cv2, demandClass, demandPeriods: sizes.length };
+};
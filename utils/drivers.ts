@@ -0,0 +1,105 @@
+import { DriverKey, DriverRecord, DriverScenario, DriverSeries, DriverValues, TimeInterval } from '../types';
+import { bucketStart } from './calendar';
+
+/**
+ * Demand drivers (price, promotions, marketing, macro) aligned to a forecast
+ * series. History comes from the uploaded driver file; future values carry
+ * the last observation forward unless a driver scenario overrides them.
+ */
+
+export const DRIVER_KEYS: DriverKey[] = ['price', 'promo', 'marketingSpend', 'macroIndex'];
+
+export const DRIVER_LABELS: Record<DriverKey, string> = {
+  price: 'Price',
+  promo: 'Promo',
+  marketingSpend: 'Marketing Spend',
+  macroIndex: 'Macro Index'
+};
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / (values.length || 1);
+
+// Spend adds up across SKUs and days; price, promo share and the index are averaged
+const combine = (driver: DriverKey, values: number[]) =>
+  driver === 'marketingSpend' ? values.reduce((a, b) => a + b, 0) : mean(values);
+
+/**
+ * Driver history on the series calendar for a group of SKUs. Gaps are filled
+ * from the nearest earlier observation (later for leading gaps); drivers with
+ * no observations at all are left out.
+ */
+export const alignDrivers = (records: DriverRecord[], dates: string[], skus: string[], interval: TimeInterval): DriverValues => {
+  const skuSet = new Set(skus);
+  const cells = new Map<string, Map<string, DriverRecord[]>>();
+  records.forEach(r => {
+    if (!skuSet.has(r.sku)) return;
+    const date = bucketStart(r.date, interval);
+    const bySku = cells.get(date) ?? new Map<string, DriverRecord[]>();
+    bySku.set(r.sku, [...(bySku.get(r.sku) || []), r]);
+    cells.set(date, bySku);
+  });
+
+  const result: DriverValues = {};
+  DRIVER_KEYS.forEach(driver => {
+    const raw = dates.map(date => {
+      const bySku = cells.get(date);
+      if (!bySku) return null;
+      const perSku = Array.from(bySku.values())
+        .map(rows => rows.map(r => r[driver]).filter((v): v is number => v !== undefined && Number.isFinite(v)))
+        .filter(v => v.length > 0)
+        .map(v => combine(driver, v));
+      return perSku.length > 0 ? combine(driver, perSku) : null;
+    });
+    const first = raw.find(v => v !== null);
+    if (first === undefined || first === null) return;
+    let last = first;
+    result[driver] = raw.map(v => (v === null ? last : (last = v)));
+  });
+  return result;
+};
+
+/**
+ * Future driver paths: last value carried forward (promotions default to off),
+ * then scenario overrides. A scenario for one SKU only applies to that SKU's
+ * own series, not to the category and total nodes that contain it.
+ */
+export const projectDrivers = (history: DriverValues, horizon: number, skus: string[], scenarios: DriverScenario[]): DriverValues => {
+  const future: DriverValues = {};
+  (Object.keys(history) as DriverKey[]).forEach(driver => {
+    const values = history[driver]!;
+    const base = driver === 'promo' ? 0 : values[values.length - 1] ?? 0;
+    future[driver] = Array.from({ length: horizon }, (_, i) => {
+      const period = i + 1;
+      const override = scenarios.filter(s =>
+        s.driver === driver && period >= s.startPeriod && period <= s.endPeriod && (s.sku === 'ALL' || (skus.length === 1 && skus[0] === s.sku))
+      );
+      return override.length > 0 ? combine(driver, override.map(s => s.value)) : base;
+    });
+  });
+  return future;
+};
+
+export const buildDriverSeries = (
+  records: DriverRecord[],
+  dates: string[],
+  skus: string[],
+  interval: TimeInterval,
+  horizon: number,
+  scenarios: DriverScenario[]
+): DriverSeries => {
+  const history = alignDrivers(records, dates, skus, interval);
+  return { history, future: projectDrivers(history, horizon, skus, scenarios) };
+};
+
+/**
+ * Drivers for a backtest origin: the training history, with the holdout
+ * projected from it as a live forecast would be (ex-ante evaluation, no
+ * scenarios), so driver models get no sight of the drivers that followed.
+ */
+export const sliceDrivers = (drivers: DriverSeries | undefined, start: number, end: number, horizon: number): DriverSeries | undefined => {
+  if (!drivers) return undefined;
+  const history: DriverValues = {};
+  (Object.keys(drivers.history) as DriverKey[]).forEach(driver => {
+    history[driver] = drivers.history[driver]!.slice(start, end);
+  });
+  return { history, future: projectDrivers(history, horizon, [], []) };
+};
@@ -0,0 +1,493 @@
+import {
+  DataPoint, FilterState, ProductAttribute, InventoryLevel, DriverRecord, DriverScenario, Supersession, FillPolicy, AnomalyReview,
+  AnomalyRecord, ForecastEvent, DemandClass, ForecastMethodology, Scenario, ForecastOverride, ForecastPoint, EnsembleSpec, DriverSeries, AnalogSpec
+} from '../types';
+import { ForecastRun, BASE_METHODOLOGIES } from './forecasting';
+import { calculateSupplyChainMetrics, runParetoAnalysis } from './supplyChain';
+import { selectModel, buildEnsembleSpec, withEnsembleBacktest, BacktestResult, ModelSelection } from './backtest';
+import { bucketStart, toContinuousSeries, addPeriods } from './calendar';
+import { normalizeHistory, SeriesQuality } from './dataQuality';
+import { rollUpPoints } from './rollup';
+import { buildHierarchy, hierarchyForecastTasks, hierarchyBacktestTasks, nodeSkus, nodeMethod, Hierarchy, HierarchyBacktest, NodeInputs } from './reconcile';
+import { buildDriverSeries } from './drivers';
+import { detectAnomalies, mergeReviews, applyAnomalyCorrections } from './anomalies';
+import { buildAnalogSpecs } from './analogs';
+import { classifyDemand, DemandProfile, DEFAULT_CLASS_METHODS } from './demandClass';
+import { holidayEvents, holidaysByDefault } from './events';
+import { scalePoint } from './decomposition';
+import { chainSupersessions, pendingSupersessions, endOfLifeDates, applyEndOfLife, rampedVolume, receiveVolume } from './lifecycle';
+import { applyOverrides } from './overrides';
+import { estimateBias, correctRuns, LagBias } from './biasCorrection';
+import { executeTask, PoolTask, TaskResult, ForecastTask, BacktestTask, ReconcileTask, ScoreTask } from './workerProtocol';
+
+/**
+ * Headless planning engine: the dashboard's pipeline from raw sales rows to
+ * planned SKU forecasts, as plain functions with no React or DOM.
+ * `forecastPlan` orders the stages and hands each task list to a runner, the
+ * worker pool in the dashboard and the calling thread in batch jobs;
+ * `completePlan` turns its forecasts into SKU plans. Both callers go through
+ * these two functions, so they give the same numbers.
+ */
+
+/** Everything a plan is made from besides the filter settings; only the first three are required. */
+export interface PlanInputs {
+  data: DataPoint[];
+  attributes: ProductAttribute[];
+  inventory: InventoryLevel[];
+  driverRecords?: DriverRecord[];
+  driverScenarios?: DriverScenario[];
+  supersessions?: Supersession[];
+  fillPolicies?: Record<string, FillPolicy>;
+  anomalyReviews?: Record<string, AnomalyReview>;
+  customEvents?: ForecastEvent[];
+  /** Public holidays as forecast events; by default on for daily and weekly buckets only. */
+  includeHolidays?: boolean;
+  classMethods?: Record<DemandClass, ForecastMethodology>;
+  skuMethodOverrides?: Record<string, ForecastMethodology>;
+  scenarios?: Scenario[];
+  /** Consensus overrides; only approved ones change the plan. */
+  overrides?: ForecastOverride[];
+  /** Market trend multiplier, applied when external trends are on. */
+  marketMultiplier?: number | null;
+}
+
+export interface PlanSettings {
+  filters: FilterState;
+  horizon: number;
+}
+
+export interface SkuPlan {
+  sku: string;
+  category: string;
+  /** Methodology the SKU was forecast with. */
+  method: ForecastMethodology;
+  label?: string;
+  points: ForecastPoint[];
+}
+
+export interface ModelChoice {
+  ensembleSpec: EnsembleSpec;
+  /** The base backtest with the ensemble scored alongside. */
+  backtest: BacktestResult | null;
+  selection: ModelSelection;
+  /** Methodology the hierarchy is forecast with, with Auto resolved. */
+  method: ForecastMethodology;
+}
+
+export interface FinancialSummary {
+  totalRevenue: number;
+  totalMargin: number;
+  avgInventoryValue: number;
+  valueAtRisk: number;
+}
+
+// Superseded items' history continues under their successor; supersessions
+// still to come hand over their forecast instead (see planSkus)
+export const chainHistory = (data: DataPoint[], supersessions: Supersession[] = []) => {
+  const asOf = data.reduce((max, d) => (d.date > max ? d.date : max), '');
+  return { ...chainSupersessions(data, supersessions, asOf), pending: pendingSupersessions(supersessions, asOf) };
+};
+
+/** Rows in the filter's date range, SKUs and category, then one complete calendar per SKU (duplicates summed, gaps filled). */
+export const scopeHistory = (data: DataPoint[], filters: FilterState, fillPolicies: Record<string, FillPolicy> = {}) => {
+  const start = new Date(filters.startDate).getTime();
+  const end = new Date(filters.endDate).getTime();
+  const inScope = data.filter(item => {
+    const itemDate = new Date(bucketStart(item.date, filters.interval)).getTime();
+    const matchesDate = itemDate >= start && itemDate <= end;
+    const matchesSku = filters.skus.length === 0 || filters.skus.includes(item.sku);
+    const matchesCategory = filters.category === 'All' || item.category === filters.category;
+    return matchesDate && matchesSku && matchesCategory;
+  });
+  return normalizeHistory(inScope, filters.interval, fillPolicies, filters.defaultFillPolicy);
+};
+
+/**
+ * Items forecast from analogs, and successors of pending supersessions, in the
+ * filter's SKUs and category; those yet to sell get their own hierarchy node.
+ */
+export const launchAttributes = (
+  attributes: ProductAttribute[],
+  filters: FilterState,
+  analogs: Map<string, AnalogSpec> | undefined,
+  pending: Supersession[] = []
+) =>
+  attributes.filter(a =>
+    (analogs?.has(a.sku) || pending.some(s => s.newSku === a.sku)) &&
+    (filters.skus.length === 0 || filters.skus.includes(a.sku)) &&
+    (filters.category === 'All' || a.category === filters.category)
+  );
+
+/** Anomaly log of the bucketed history; only reviewed points change the history, and only when cleaning is on. */
+export const reviewHistory = (bucketed: DataPoint[], filters: FilterState, reviews: Record<string, AnomalyReview> = {}): { anomalyLog: AnomalyRecord[]; data: DataPoint[] } => {
+  const anomalyLog = mergeReviews(
+    detectAnomalies(bucketed, { method: filters.anomalyDetector, threshold: filters.anomalyThreshold, interval: filters.interval }),
+    reviews
+  );
+  return { anomalyLog, data: filters.applyAnomalyCleaning ? applyAnomalyCorrections(bucketed, anomalyLog) : bucketed };
+};
+
+/** Holidays for every year from the first observation to the end of the horizon, plus the planner's events. */
+export const planningEvents = (
+  series: DataPoint[],
+  settings: PlanSettings,
+  includeHolidays = holidaysByDefault(settings.filters.interval),
+  customEvents: ForecastEvent[] = []
+) => {
+  if (!includeHolidays || series.length === 0) return customEvents;
+  const fromYear = Number(series[0].date.slice(0, 4));
+  const toYear = Number(addPeriods(series[series.length - 1].date, settings.filters.interval, settings.horizon).slice(0, 4));
+  return [...holidayEvents(fromYear, toYear), ...customEvents];
+};
+
+/** Driver history and assumed future values for every hierarchy node. */
+export const nodeDriverSeries = (hierarchy: Hierarchy, records: DriverRecord[] = [], scenarios: DriverScenario[] = [], settings: PlanSettings) => {
+  if (records.length === 0) return undefined;
+  return new Map(hierarchy.nodes.map(n => [
+    n.id,
+    buildDriverSeries(records, n.series.map(d => d.date), nodeSkus(hierarchy, n), settings.filters.interval, settings.horizon, scenarios)
+  ]));
+};
+
+// Average cost and price of the SKUs, valuing a backtest's holding and stockout risk
+const riskPrices = (attributes: ProductAttribute[], skus: string[]) => {
+  const selected = attributes.filter(a => skus.includes(a.sku));
+  const average = (field: 'unitCost' | 'sellingPrice') => selected.length > 0 ? selected.reduce((s, a) => s + a[field], 0) / selected.length : undefined;
+  return { unitCost: average('unitCost'), sellingPrice: average('sellingPrice') };
+};
+
+/** Rolling backtest of every base model on the total. Risk is valued at the selection's average cost and price, as in the financial projections. */
+export const totalBacktestTasks = (
+  series: DataPoint[],
+  filters: FilterState,
+  attributes: ProductAttribute[],
+  drivers: Map<string, DriverSeries> | undefined,
+  events: ForecastEvent[]
+): BacktestTask[] => [{
+  kind: 'backtest', key: 'total', series, methods: BASE_METHODOLOGIES,
+  config: { ...backtestConfigFor(filters), drivers: drivers?.get('total:Total'), events, ...riskPrices(attributes, filters.skus) }
+}];
+
+/**
+ * Under Auto, the same backtest on every category and SKU series, keyed by
+ * node id, so each series gets its own winner. SKUs with a planner or class
+ * methodology are skipped, as that methodology wins anyway.
+ */
+export const seriesBacktestTasks = (
+  hierarchy: Hierarchy,
+  filters: FilterState,
+  attributes: ProductAttribute[],
+  drivers: Map<string, DriverSeries> | undefined,
+  events: ForecastEvent[],
+  skuMethods: Map<string, ForecastMethodology>
+): BacktestTask[] => {
+  if (filters.methodology !== ForecastMethodology.AUTO) return [];
+  return hierarchy.nodes
+    .filter(n => n.level === 'category' || (n.level === 'sku' && !skuMethods.has(n.name)))
+    .map(n => ({
+      kind: 'backtest', key: n.id, series: n.series, methods: BASE_METHODOLOGIES,
+      config: { ...backtestConfigFor(filters), drivers: drivers?.get(n.id), events, ...riskPrices(attributes, nodeSkus(hierarchy, n)) }
+    }));
+};
+
+/** Ensemble, winning model and the methodology in use, from the total's backtest. The total is forecast with this methodology. */
+export const chooseModel = (backtest: BacktestResult | null, filters: FilterState): ModelChoice => {
+  const ensembleSpec = buildEnsembleSpec(backtest, filters.selectionMetric, filters.ensembleWeighting, filters.ensembleSize);
+  const scored = withEnsembleBacktest(backtest, ensembleSpec, filters.selectionMetric);
+  const selection = selectModel(scored, filters.selectionMetric);
+  const method = filters.methodology === ForecastMethodology.AUTO ? selection.method : filters.methodology;
+  return { ensembleSpec, backtest: scored, selection, method };
+};
+
+/**
+ * Auto's winner per series, with the shared ensemble scored alongside the
+ * base models. A series too short to backtest keeps the total's choice.
+ */
+export const chooseSeriesModels = (backtests: Map<string, BacktestResult | null>, model: ModelChoice, filters: FilterState) =>
+  new Map<string, ModelSelection>(Array.from(backtests.entries()).map(([id, backtest]) =>
+    [id, selectModel(withEnsembleBacktest(backtest, model.ensembleSpec, filters.selectionMetric), filters.selectionMetric, model.method)]
+  ));
+
+/** Methodology per node id, as the forecast tasks resolve it. */
+export const nodeMethodsFor = (hierarchy: Hierarchy, method: ForecastMethodology, inputs: NodeInputs) =>
+  new Map(hierarchy.nodes.map(n => [n.id, nodeMethod(n, method, inputs)]));
+
+/** Forward run of each listed methodology on the total, for side-by-side comparison. */
+export const comparisonTasks = (
+  series: DataPoint[],
+  settings: PlanSettings,
+  methods: ForecastMethodology[],
+  ensembleSpec: EnsembleSpec,
+  drivers: Map<string, DriverSeries> | undefined,
+  events: ForecastEvent[]
+): ForecastTask[] =>
+  methods.map(m => ({
+    kind: 'forecast', key: m, series, horizon: settings.horizon,
+    interval: settings.filters.interval, confidenceLevel: settings.filters.confidenceLevel, method: m,
+    options: { ensemble: ensembleSpec, intervals: { method: settings.filters.intervalMethod }, drivers: drivers?.get('total:Total'), events }
+  }));
+
+/** Launch curves for new items; analogs keep their history from before the selection's start so their launch is in view, but nothing after its end. */
+export const analogSpecsFor = (attributes: ProductAttribute[], data: DataPoint[], filters: FilterState, fillPolicies: Record<string, FillPolicy> = {}) => {
+  const analogSkus = new Set(attributes.flatMap(a => (a.analogs ?? []).map(l => l.sku)));
+  if (analogSkus.size === 0) return undefined;
+  const end = new Date(filters.endDate).getTime();
+  const rows = data.filter(d => analogSkus.has(d.sku) && new Date(bucketStart(d.date, filters.interval)).getTime() <= end);
+  const history = normalizeHistory(rows, filters.interval, fillPolicies, filters.defaultFillPolicy).data;
+  return buildAnalogSpecs(attributes, history, filters.interval);
+};
+
+/** Demand pattern per SKU, from the same series each SKU is forecast on. */
+export const demandProfilesFor = (hierarchy: Hierarchy) =>
+  new Map<string, DemandProfile>(hierarchy.nodes.filter(n => n.level === 'sku').map(n => [n.name, classifyDemand(n.series.map(d => d.quantity))]));
+
+/** Planner overrides always win; class defaults apply when class-based models are on. */
+export const skuMethodsFor = (
+  profiles: Map<string, DemandProfile>,
+  filters: FilterState,
+  overrides: Record<string, ForecastMethodology> = {},
+  classMethods: Record<DemandClass, ForecastMethodology> = DEFAULT_CLASS_METHODS
+) => {
+  const methods = new Map<string, ForecastMethodology>();
+  profiles.forEach((profile, sku) => {
+    const method = overrides[sku] ?? (filters.classBasedModels ? classMethods[profile.demandClass] : undefined);
+    if (method) methods.set(sku, method);
+  });
+  return methods;
+};
+
+export const nodeForecastTasks = (
+  hierarchy: Hierarchy,
+  settings: PlanSettings,
+  method: ForecastMethodology,
+  ensembleSpec: EnsembleSpec,
+  events: ForecastEvent[],
+  inputs: NodeInputs
+): ForecastTask[] => {
+  const { interval, confidenceLevel, intervalMethod } = settings.filters;
+  return hierarchyForecastTasks(hierarchy, settings.horizon, interval, confidenceLevel, method, {
+    ensemble: ensembleSpec,
+    intervals: { method: intervalMethod },
+    events
+  }, inputs);
+};
+
+export const backtestConfigFor = (filters: FilterState) => {
+  const { backtestOrigins, backtestHorizon, backtestWindow, confidenceLevel, interval } = filters;
+  return { origins: backtestOrigins, horizon: backtestHorizon, window: backtestWindow, confidenceLevel, interval };
+};
+
+export const nodeBacktestTasks = (
+  hierarchy: Hierarchy,
+  filters: FilterState,
+  method: ForecastMethodology,
+  ensembleSpec: EnsembleSpec,
+  events: ForecastEvent[],
+  inputs: NodeInputs
+): ForecastTask[] =>
+  hierarchyBacktestTasks(hierarchy, method, backtestConfigFor(filters), { ensemble: ensembleSpec, events }, inputs);
+
+/** Accuracy per level and per-node errors of the hierarchy backtest runs, as one pool task keyed 'hierarchy'. */
+export const hierarchyScoreTask = (hierarchy: Hierarchy, filters: FilterState, runs: Map<string, ForecastRun>): ScoreTask => ({
+  kind: 'score', key: 'hierarchy', hierarchy, method: filters.reconciliation, config: backtestConfigFor(filters), runs: Object.fromEntries(runs)
+});
+
+/** Base forecasts going into reconciliation: debiased per series and lag when bias correction is on. */
+export const baseForecastRuns = (runs: Map<string, ForecastRun>, bias: Map<string, LagBias[]>, filters: FilterState) =>
+  filters.biasCorrection ? correctRuns(runs, bias) : runs;
+
+/** Reconciliation of the base forecasts, as one pool task keyed 'reconciled'. */
+export const reconcileTask = (hierarchy: Hierarchy, runs: Map<string, ForecastRun>, filters: FilterState): ReconcileTask => ({
+  kind: 'reconcile', key: 'reconciled', hierarchy, runs: Object.fromEntries(runs), method: filters.reconciliation
+});
+
+/**
+ * Planned points per SKU: reconciled forecast, market trend, end of life and
+ * approved overrides, then safety stock, reorder point and financials. Demand
+ * a pending supersession ramps off the old SKU moves onto its successor,
+ * converted by the ratio; chains hand it on, predecessors first.
+ */
+export const planSkus = (
+  hierarchy: Hierarchy,
+  runs: Map<string, ForecastRun>,
+  reconciled: Map<string, ForecastPoint[]>,
+  inputs: Pick<PlanInputs, 'attributes' | 'inventory' | 'scenarios' | 'overrides' | 'marketMultiplier'>,
+  settings: PlanSettings,
+  endOfLife: Map<string, string>,
+  methods: Map<string, ForecastMethodology>,
+  pending: Supersession[] = []
+): SkuPlan[] => {
+  const { filters } = settings;
+  const { attributes, inventory, scenarios = [], overrides = [], marketMultiplier } = inputs;
+  const skuNodes = hierarchy.nodes.filter(n => n.level === 'sku');
+  const depth = (sku: string, seen: Set<string>): number => {
+    const predecessors = pending.filter(s => s.newSku === sku && !seen.has(s.oldSku));
+    return predecessors.length === 0 ? 0 : 1 + Math.max(...predecessors.map(s => depth(s.oldSku, new Set([...seen, s.oldSku]))));
+  };
+  const received = new Map<string, Map<string, number>>();
+  const lifecycle = new Map<string, ForecastPoint[]>();
+  [...skuNodes].sort((a, b) => depth(a.name, new Set([a.name])) - depth(b.name, new Set([b.name]))).forEach(({ id, name: sku }) => {
+    let raw: ForecastPoint[] = (reconciled.get(id) ?? []).map(p => ({ ...p, sku }));
+    if (filters.includeExternalTrends && marketMultiplier) raw = raw.map(p => (p.isForecast ? scalePoint(p, 'market', marketMultiplier) : p));
+    if (received.has(sku)) raw = receiveVolume(raw, received.get(sku)!);
+    if (endOfLife.has(sku)) {
+      const ramped = applyEndOfLife(raw, endOfLife.get(sku)!);
+      const successor = pending.find(s => s.oldSku === sku);
+      if (successor) {
+        const volume = received.get(successor.newSku) ?? new Map<string, number>();
+        rampedVolume(raw, ramped, successor.ratio).forEach((v, date) => volume.set(date, (volume.get(date) ?? 0) + v));
+        received.set(successor.newSku, volume);
+      }
+      raw = ramped;
+    }
+    lifecycle.set(sku, raw);
+  });
+
+  return skuNodes.map(({ id, name: sku, category, series }) => {
+    const run = runs.get(id);
+    // Supply chain and financials plan on the approved final consensus layer
+    const raw = applyOverrides(lifecycle.get(sku)!, overrides.filter(o => o.sku === sku));
+    const values = series.map(d => d.quantity);
+    const mean = values.reduce((a, b) => a + b, 0) / (values.length || 1);
+    const std = Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / (values.length || 1));
+    const points = calculateSupplyChainMetrics(
+      raw,
+      run?.fit?.demandStdDev ?? std,
+      filters.globalLeadTime,
+      filters.globalServiceLevel,
+      inventory.find(i => i.sku === sku)?.onHand ?? 0,
+      scenarios,
+      filters.showLeadTimeOffset,
+      filters.supplierVolatility,
+      attributes.filter(a => a.sku === sku),
+      filters.interval
+    );
+    return { sku, category, method: methods.get(id) ?? filters.methodology, label: run?.fit?.label, points };
+  });
+};
+
+export const financialSummary = (total: ForecastPoint[], filters: FilterState): FinancialSummary => {
+  const forecastOnly = total.filter(f => f.isForecast);
+  const totalRevenue = Math.round(forecastOnly.reduce((s, f) => s + (f.projectedRevenue || 0), 0));
+  const totalMargin = Math.round(forecastOnly.reduce((s, f) => s + (f.projectedMargin || 0), 0));
+  const avgInventoryValue = Math.round(forecastOnly.reduce((s, f) => s + (f.inventoryValue || 0), 0) / (forecastOnly.length || 1));
+  const valueAtRisk = Math.round(totalRevenue * (filters.supplierVolatility * 0.25));
+  return { totalRevenue, totalMargin, avgInventoryValue, valueAtRisk };
+};
+
+/** ABC classes by total recorded volume in the selected category. */
+export const abcClasses = (data: DataPoint[], filters: FilterState) => {
+  const skuMap = new Map<string, number>();
+  data.forEach(d => {
+    if (filters.category === 'All' || d.category === filters.category) skuMap.set(d.sku, (skuMap.get(d.sku) || 0) + d.quantity);
+  });
+  return runParetoAnalysis(Array.from(skuMap.entries()).map(([sku, totalVolume]) => ({ sku, totalVolume })));
+};
+
+/** Inputs of the forecast stages: everything but the inputs only the SKU plans read. */
+export type ForecastInputs = Omit<PlanInputs, 'inventory' | 'scenarios' | 'overrides' | 'marketMultiplier'>;
+
+/** Runs one stage's task list: the worker pool in the dashboard, the calling thread in batch runs. */
+export type TaskRunner = <T extends PoolTask>(tasks: T[]) => Promise<Map<string, TaskResult<T>>>;
+
+/** Every stage up to the reconciled forecasts. */
+export interface PlanForecast {
+  chain: ReturnType<typeof chainHistory>;
+  quality: SeriesQuality[];
+  anomalyLog: AnomalyRecord[];
+  /** Scoped, cleaned history summed over the selection, on a continuous calendar. */
+  history: DataPoint[];
+  analogs: Map<string, AnalogSpec> | undefined;
+  hierarchy: Hierarchy;
+  events: ForecastEvent[];
+  drivers: Map<string, DriverSeries> | undefined;
+  model: ModelChoice;
+  demandProfiles: Map<string, DemandProfile>;
+  skuMethods: Map<string, ForecastMethodology>;
+  /** Auto's winner per category and SKU node id; empty unless the methodology is Auto. */
+  seriesSelections: Map<string, ModelSelection>;
+  /** Methodology per node id, as the forecast tasks resolved it. */
+  nodeMethods: Map<string, ForecastMethodology>;
+  runs: Map<string, ForecastRun>;
+  reconciliation: HierarchyBacktest;
+  bias: Map<string, LagBias[]>;
+  reconciled: Map<string, ForecastPoint[]>;
+  endOfLife: Map<string, string>;
+}
+
+export interface PlanResult extends PlanForecast {
+  skus: SkuPlan[];
+  /** Roll-up of the SKU plans. */
+  total: ForecastPoint[];
+  financials: FinancialSummary;
+  abc: ReturnType<typeof runParetoAnalysis>;
+}
+
+/**
+ * The forecast stages in order, each task stage through `run`. The hierarchy
+ * forecasts and their backtest run side by side; reconciliation waits for the
+ * backtest's bias estimates.
+ */
+export const forecastPlan = async (inputs: ForecastInputs, settings: PlanSettings, run: TaskRunner): Promise<PlanForecast> => {
+  const { filters } = settings;
+  const chain = chainHistory(inputs.data, inputs.supersessions);
+  const { data: bucketed, quality } = scopeHistory(chain.data, filters, inputs.fillPolicies);
+  const { anomalyLog, data: processed } = reviewHistory(bucketed, filters, inputs.anomalyReviews);
+  const history = toContinuousSeries(processed, filters.interval);
+  const analogs = analogSpecsFor(inputs.attributes, inputs.data, filters, inputs.fillPolicies);
+  const hierarchy = buildHierarchy(processed, filters.interval, launchAttributes(inputs.attributes, filters, analogs, chain.pending));
+  const events = planningEvents(history, settings, inputs.includeHolidays, inputs.customEvents);
+  const drivers = nodeDriverSeries(hierarchy, inputs.driverRecords, inputs.driverScenarios, settings);
+
+  const model = chooseModel((await run(totalBacktestTasks(history, filters, inputs.attributes, drivers, events))).get('total') ?? null, filters);
+  const demandProfiles = demandProfilesFor(hierarchy);
+  const skuMethods = skuMethodsFor(demandProfiles, filters, inputs.skuMethodOverrides, inputs.classMethods);
+  const seriesSelections = chooseSeriesModels(await run(seriesBacktestTasks(hierarchy, filters, inputs.attributes, drivers, events, skuMethods)), model, filters);
+  const nodeInputs: NodeInputs = {
+    drivers,
+    analogs,
+    methods: skuMethods,
+    selections: new Map(Array.from(seriesSelections.entries()).map(([id, s]) => [id, s.method]))
+  };
+
+  const [runs, backtestRuns] = await Promise.all([
+    run(nodeForecastTasks(hierarchy, settings, model.method, model.ensembleSpec, events, nodeInputs)),
+    run(nodeBacktestTasks(hierarchy, filters, model.method, model.ensembleSpec, events, nodeInputs))
+  ]);
+  const reconciliation = (await run([hierarchyScoreTask(hierarchy, filters, backtestRuns)])).get('hierarchy')!;
+  const bias = estimateBias(reconciliation.errors);
+  const reconciled = (await run([reconcileTask(hierarchy, baseForecastRuns(runs, bias, filters), filters)])).get('reconciled')!;
+
+  return {
+    chain, quality, anomalyLog, history, analogs, hierarchy, events, drivers, model, demandProfiles, skuMethods, seriesSelections,
+    nodeMethods: nodeMethodsFor(hierarchy, model.method, nodeInputs),
+    runs, reconciliation, bias, reconciled,
+    endOfLife: endOfLifeDates(inputs.attributes, inputs.supersessions ?? [])
+  };
+};
+
+/**
+ * SKU plans and their summaries from the forecast stages. No tasks: the
+ * dashboard reruns it on its own when inventory, scenarios, overrides or the
+ * market multiplier change.
+ */
+export const completePlan = (forecast: PlanForecast, inputs: PlanInputs, settings: PlanSettings): PlanResult => {
+  const skus = planSkus(
+    forecast.hierarchy, forecast.runs, forecast.reconciled, inputs, settings, forecast.endOfLife, forecast.nodeMethods, forecast.chain.pending
+  );
+  const total = rollUpPoints(skus.map(s => s.points));
+  return {
+    ...forecast,
+    skus,
+    total,
+    financials: financialSummary(total, settings.filters),
+    abc: abcClasses(inputs.data, settings.filters)
+  };
+};
+
+/** Runs each task list on the calling thread. */
+export const inlineRunner: TaskRunner = async tasks => new Map(tasks.map(t => [t.key, executeTask(t) as TaskResult<typeof t>]));
+
+/** The whole pipeline, by default on the calling thread; the dashboard runs the same two steps on the worker pool. */
+export const runPlan = async (inputs: PlanInputs, settings: PlanSettings, run: TaskRunner = inlineRunner): Promise<PlanResult> =>
+  completePlan(await forecastPlan(inputs, settings, run), inputs, settings);
@@ -0,0 +1,37 @@
+import { EnsembleWeighting } from '../types';
+
+/**
+ * Combination rules shared by the forward ensemble forecast and its backtest.
+ */
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Member weights. Inverse-error weights are proportional to 1 / backtest error;
+ * mean and median treat every member equally.
+ */
+export const computeEnsembleWeights = (errors: number[], weighting: EnsembleWeighting): number[] => {
+  if (errors.length === 0) return [];
+  if (weighting !== 'inverse-error') return errors.map(() => 1 / errors.length);
+  const inverse = errors.map(e => 1 / Math.max(e, 1e-9));
+  const total = inverse.reduce((a, b) => a + b, 0);
+  return inverse.map(v => v / total);
+};
+
+export const combineValues = (values: number[], weights: number[], weighting: EnsembleWeighting) =>
+  weighting === 'median' ? median(values) : values.reduce((s, v, i) => s + v * weights[i], 0);
+
+/**
+ * Combines aligned member series point by point. A point is null when any member has no value there.
+ */
+export const combineSeries = (series: (number | null)[][], weights: number[], weighting: EnsembleWeighting): (number | null)[] => {
+  const length = Math.min(...series.map(s => s.length));
+  return Array.from({ length }, (_, t) => {
+    const values = series.map(s => s[t]);
+    return values.every(v => v !== null) ? combineValues(values as number[], weights, weighting) : null;
+  });
+};
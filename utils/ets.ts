@@ -0,0 +1,196 @@
+import { nelderMead, toBounded, fromBounded } from './optimize';
+
+/**
+ * Holt-Winters exponential smoothing (ETS with additive trend) with
+ * smoothing parameters fitted by minimising in-sample one-step SSE.
+ */
+
+export type SeasonalType = 'additive' | 'multiplicative';
+
+export interface EtsSpec {
+  seasonal: SeasonalType;
+  damped: boolean;
+  period: number;
+}
+
+export interface EtsModel {
+  /** Specification actually fitted, after any fallback. */
+  spec: EtsSpec;
+  /** Multiplicative seasonality was requested but the series has non-positive values, so the fit is additive. */
+  additiveFallback: boolean;
+  alpha: number;
+  beta: number;
+  gamma: number;
+  phi: number;
+  level: number;
+  trend: number;
+  /** Seasonal indices keyed by `t % period`. */
+  seasonals: number[];
+  n: number;
+  sse: number;
+  fitted: number[];
+  residuals: number[];
+}
+
+interface EtsParams {
+  alpha: number;
+  beta: number;
+  gamma: number;
+  phi: number;
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / (values.length || 1);
+
+/**
+ * Classical start-up values: level and trend from the first two seasons,
+ * seasonal indices averaged over every complete season.
+ */
+const initialState = (values: number[], { seasonal, period }: EtsSpec) => {
+  const L = period;
+  const n = values.length;
+  const isSeasonal = L > 1 && n >= 2 * L;
+  if (!isSeasonal) {
+    return {
+      level: values[0],
+      trend: n > 1 ? values[1] - values[0] : 0,
+      seasonals: new Array(Math.max(L, 1)).fill(seasonal === 'multiplicative' ? 1 : 0)
+    };
+  }
+
+  const firstMean = mean(values.slice(0, L));
+  const secondMean = mean(values.slice(L, 2 * L));
+  const seasons = Math.floor(n / L);
+  const seasonals = new Array(L).fill(0);
+  for (let k = 0; k < seasons; k++) {
+    const block = values.slice(k * L, (k + 1) * L);
+    const blockMean = mean(block) || 1;
+    block.forEach((v, i) => {
+      seasonals[i] += (seasonal === 'multiplicative' ? v / blockMean : v - blockMean) / seasons;
+    });
+  }
+  // Normalise so the indices average to 1 (multiplicative) or 0 (additive)
+  const avg = mean(seasonals);
+  const normalised = seasonals.map(s => (seasonal === 'multiplicative' ? s / (avg || 1) : s - avg));
+
+  return { level: firstMean, trend: (secondMean - firstMean) / L, seasonals: normalised };
+};
+
+const runFilter = (values: number[], spec: EtsSpec, { alpha, beta, gamma, phi }: EtsParams) => {
+  const init = initialState(values, spec);
+  const L = init.seasonals.length;
+  const mult = spec.seasonal === 'multiplicative';
+  const seasonals = init.seasonals.slice();
+  let { level, trend } = init;
+  let sse = 0;
+  const fitted: number[] = [];
+  const residuals: number[] = [];
+
+  for (let t = 0; t < values.length; t++) {
+    const y = values[t];
+    const s = seasonals[t % L];
+    const base = level + phi * trend;
+    const yhat = mult ? base * s : base + s;
+    fitted.push(yhat);
+    residuals.push(y - yhat);
+    sse += (y - yhat) ** 2;
+
+    const prevLevel = level;
+    level = alpha * (mult ? y / (s || 1) : y - s) + (1 - alpha) * base;
+    trend = beta * (level - prevLevel) + (1 - beta) * phi * trend;
+    seasonals[t % L] = gamma * (mult ? y / (level || 1) : y - level) + (1 - gamma) * s;
+  }
+
+  return { level, trend, seasonals, sse, fitted, residuals };
+};
+
+export const fitEts = (values: number[], spec: EtsSpec): EtsModel => {
+  const seasonal = spec.period > 1 && values.length >= 2 * spec.period;
+  // Multiplicative indices are undefined once the series touches zero
+  const additiveFallback = spec.seasonal === 'multiplicative' && values.some(v => v <= 0);
+  const effectiveSpec: EtsSpec = {
+    ...spec,
+    period: seasonal ? spec.period : 1,
+    seasonal: additiveFallback ? 'additive' : spec.seasonal
+  };
+
+  // Holt-Winters smoothing weights, each on (0, 1) on its own; only the
+  // parameters the spec uses are searched
+  const bounds: Record<keyof EtsParams, [number, number, number]> = {
+    alpha: [0.01, 0.99, 0.3],
+    beta: [0.001, 0.99, 0.1],
+    gamma: [0.001, 0.99, 0.1],
+    phi: [0.8, 0.98, 0.95]
+  };
+  const free = (['alpha', 'beta', 'gamma', 'phi'] as const).filter(k => (k !== 'gamma' || seasonal) && (k !== 'phi' || spec.damped));
+  const decode = (x: number[]): EtsParams => {
+    const params: EtsParams = { alpha: 0, beta: 0, gamma: 0, phi: 1 };
+    free.forEach((k, i) => { params[k] = toBounded(x[i], bounds[k][0], bounds[k][1]); });
+    return params;
+  };
+
+  const start = free.map(k => fromBounded(bounds[k][2], bounds[k][0], bounds[k][1]));
+  const { x } = nelderMead(p => runFilter(values, effectiveSpec, decode(p)).sse, start, { maxIterations: 600 });
+  const params = decode(x);
+  const state = runFilter(values, effectiveSpec, params);
+
+  return { spec: effectiveSpec, additiveFallback, ...params, ...state, n: values.length };
+};
+
+export const forecastEts = (model: EtsModel, horizon: number): number[] => {
+  const L = model.seasonals.length;
+  const mult = model.spec.seasonal === 'multiplicative';
+  const forecast: number[] = [];
+  let dampedSum = 0;
+  for (let h = 1; h <= horizon; h++) {
+    dampedSum += Math.pow(model.phi, h);
+    const base = model.level + dampedSum * model.trend;
+    const s = model.seasonals[(model.n + h - 1) % L];
+    forecast.push(mult ? base * s : base + s);
+  }
+  return forecast;
+};
+
+/**
+ * Forecast split into the final level, the (damped) trend carried forward and
+ * the seasonal effect; for multiplicative seasonality that is (index − 1) × base.
+ */
+export const decomposeEts = (model: EtsModel, horizon: number) => {
+  const L = model.seasonals.length;
+  const mult = model.spec.seasonal === 'multiplicative';
+  const parts = { level: [] as number[], trend: [] as number[], seasonal: [] as number[], other: [] as number[] };
+  let dampedSum = 0;
+  for (let h = 1; h <= horizon; h++) {
+    dampedSum += Math.pow(model.phi, h);
+    const base = model.level + dampedSum * model.trend;
+    const s = model.seasonals[(model.n + h - 1) % L];
+    parts.level.push(model.level);
+    parts.trend.push(dampedSum * model.trend);
+    parts.seasonal.push(mult ? base * (s - 1) : s);
+    parts.other.push(0);
+  }
+  return parts;
+};
+
+/**
+ * Psi-weights of the equivalent error-correction model, ψ_j = α + αβ·Σφ^i + (1-α)γ·[j ≡ 0 mod m].
+ * Exact for the additive model (including an additive fallback) and a
+ * first-order approximation for the multiplicative one.
+ */
+export const etsPsiWeights = ({ alpha, beta, gamma, phi, spec }: EtsModel, horizon: number) => {
+  const psi = [1];
+  let dampedSum = 0;
+  for (let j = 1; j < horizon; j++) {
+    dampedSum += Math.pow(phi, j);
+    const seasonal = spec.period > 1 && j % spec.period === 0 ? (1 - alpha) * gamma : 0;
+    psi.push(alpha + alpha * beta * dampedSum + seasonal);
+  }
+  return psi;
+};
+
+export const describeEts = ({ alpha, beta, gamma, phi, spec, additiveFallback }: EtsModel) => {
+  const parts = [`α=${alpha.toFixed(2)}`, `β=${beta.toFixed(2)}`];
+  if (spec.period > 1) parts.push(`γ=${gamma.toFixed(2)}`);
+  if (spec.damped) parts.push(`φ=${phi.toFixed(2)}`);
+  const label = parts.join(' ');
+  return additiveFallback ? `${label} · additive seasonality (non-positive demand)` : label;
+};
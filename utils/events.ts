@@ -0,0 +1,107 @@
+import { ForecastEvent, TimeInterval } from '../types';
+import { addPeriods } from './calendar';
+
+/**
+ * Holiday and event calendar turned into per-period regressors. A period is
+ * flagged for an event when any of its days falls inside an occurrence.
+ */
+
+export interface EventRegressor {
+  name: string;
+  /** 1 for periods touched by the event, aligned with the history. */
+  history: number[];
+  future: number[];
+}
+
+const dayMs = 24 * 60 * 60 * 1000;
+const toIso = (d: Date) => d.toISOString().split('T')[0];
+const utc = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+const shiftDays = (d: Date, days: number) => new Date(d.getTime() + days * dayMs);
+
+/** Easter Sunday (anonymous Gregorian algorithm). */
+const easterSunday = (year: number) => {
+  const a = year % 19, b = Math.floor(year / 100), c = year % 100;
+  const d = Math.floor(b / 4), e = b % 4, f = Math.floor((b + 8) / 25), g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30, i = Math.floor(c / 4), k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7, m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  return utc(year, month, ((h + l - 7 * m + 114) % 31) + 1);
+};
+
+/** Friday after the fourth Thursday of November. */
+const blackFriday = (year: number) => {
+  const first = utc(year, 11, 1);
+  const firstThursday = 1 + ((4 - first.getUTCDay() + 7) % 7);
+  return utc(year, 11, firstThursday + 22);
+};
+
+/**
+ * Whether the built-in holidays are on when the planner hasn't chosen. In
+ * monthly buckets New Year, Black Friday and Christmas flag the same month
+ * every year, collinear with the seasonal terms, so they start off there.
+ */
+export const holidaysByDefault = (interval: TimeInterval) => interval !== TimeInterval.MONTHLY;
+
+/** Built-in retail holidays for every year in the range, including moving dates. */
+export const holidayEvents = (fromYear: number, toYear: number): ForecastEvent[] => {
+  const events: ForecastEvent[] = [];
+  for (let year = fromYear; year <= toYear; year++) {
+    const add = (name: string, start: Date, end: Date) =>
+      events.push({ id: `holiday:${name}:${year}`, name, start: toIso(start), end: toIso(end), recurring: false });
+    add('New Year', utc(year, 1, 1), utc(year, 1, 1));
+    add('Easter', shiftDays(easterSunday(year), -2), shiftDays(easterSunday(year), 1));
+    add('Black Friday', blackFriday(year), shiftDays(blackFriday(year), 3));
+    add('Christmas', utc(year, 12, 24), utc(year, 12, 26));
+  }
+  return events;
+};
+
+/**
+ * Concrete date ranges of every event between two dates. Recurring events
+ * repeat their month and day each year; a range that wraps past 31 December
+ * ends in the following year.
+ */
+export const eventOccurrences = (events: ForecastEvent[], from: string, to: string) =>
+  events.flatMap(e => {
+    if (!e.recurring) return e.end >= from && e.start <= to ? [{ name: e.name, start: e.start, end: e.end }] : [];
+    const startMd = e.start.slice(5, 10);
+    const endMd = e.end.slice(5, 10);
+    const wraps = endMd < startMd;
+    const result: { name: string; start: string; end: string }[] = [];
+    for (let year = Number(from.slice(0, 4)) - 1; year <= Number(to.slice(0, 4)); year++) {
+      const start = `${year}-${startMd}`;
+      const end = `${wraps ? year + 1 : year}-${endMd}`;
+      if (end >= from && start <= to) result.push({ name: e.name, start, end });
+    }
+    return result;
+  });
+
+/**
+ * One indicator column per event name over the history and the horizon.
+ * Events that never occur in the history, or occur in every period, carry
+ * no estimable effect and are dropped.
+ */
+export const eventRegressors = (
+  events: ForecastEvent[],
+  dates: string[],
+  futureDates: string[],
+  interval: TimeInterval
+): EventRegressor[] => {
+  const all = [...dates, ...futureDates];
+  if (events.length === 0 || all.length === 0) return [];
+  const lastDay = (date: string) => toIso(shiftDays(new Date(`${addPeriods(date, interval, 1)}T00:00:00Z`), -1));
+  const occurrences = eventOccurrences(events, all[0], lastDay(all[all.length - 1]));
+  const names = Array.from(new Set(occurrences.map(o => o.name)));
+
+  return names.flatMap(name => {
+    const own = occurrences.filter(o => o.name === name);
+    const flag = (date: string) => {
+      const end = lastDay(date);
+      return own.some(o => o.start <= end && o.end >= date) ? 1 : 0;
+    };
+    const history = dates.map(flag);
+    const touched = history.reduce((a, b) => a + b, 0);
+    if (touched === 0 || touched === history.length) return [];
+    return [{ name, history, future: futureDates.map(flag) }];
+  });
+};
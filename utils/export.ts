@@ -1,20 +1,10 @@
 
-import { ForecastPoint } from '../types';
+import { ForecastPoint, ForecastMethodology } from '../types';
+import { DemandProfile } from './demandClass';
+import { METRIC_LABELS, MetricSummary, SUMMARY_METRICS, SummaryMetric, BacktestResult } from './backtest';
+import { LevelAccuracy } from './reconcile';
 
-export const exportToCSV = (data: ForecastPoint[], filename: string) => {
-  const headers = ['Date', 'Historical', 'Forecast', 'Lower Bound', 'Upper Bound', 'Safety Stock', 'Reorder Point', 'Projected Inventory'];
-  const csvRows = data.map(p => [
-    p.date,
-    p.historical ?? '',
-    p.forecast,
-    p.lowerBound ?? '',
-    p.upperBound ?? '',
-    p.safetyStock ?? '',
-    p.reorderPoint ?? '',
-    p.projectedInventory ?? ''
-  ].join(','));
-
-  const csvContent = [headers.join(','), ...csvRows].join('\n');
+const downloadCSV = (csvContent: string, filename: string) => {
   const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
   const link = document.createElement('a');
   if (link.download !== undefined) {
@@ -27,3 +17,94 @@ export const exportToCSV = (data: ForecastPoint[], filename: string) => {
     document.body.removeChild(link);
   }
 };
+
+/** Forecast points, followed by the backtest accuracy summary when one is given. */
+export const forecastCSV = (data: ForecastPoint[], metrics?: Record<SummaryMetric, MetricSummary> | null) => {
+  const headers = ['SKU', 'Date', 'Historical', 'Forecast', 'Model', 'Lower Bound', 'Upper Bound', 'P10', 'P50', 'P90', 'Statistical', 'Sales', 'Marketing', 'Final Consensus', 'Safety Stock', 'Reorder Point', 'Projected Inventory'];
+  const csvRows = data.map(p => [
+    p.sku ?? '',
+    p.date,
+    p.historical ?? '',
+    p.forecast,
+    p.model ? `"${p.model}"` : '',
+    p.lowerBound ?? '',
+    p.upperBound ?? '',
+    p.quantiles?.P10 ?? '',
+    p.quantiles?.P50 ?? '',
+    p.quantiles?.P90 ?? '',
+    p.layers?.statistical ?? '',
+    p.layers?.sales ?? '',
+    p.layers?.marketing ?? '',
+    p.layers?.final ?? '',
+    p.safetyStock ?? '',
+    p.reorderPoint ?? '',
+    p.projectedInventory ?? ''
+  ].join(','));
+
+  const metricRows = metrics
+    ? ['', 'Metric,Mean,Std Dev', ...SUMMARY_METRICS.map(key => [METRIC_LABELS[key], metrics[key].mean.toFixed(4), metrics[key].std.toFixed(4)].join(','))]
+    : [];
+
+  return [headers.join(','), ...csvRows, ...metricRows].join('\n');
+};
+
+export const exportToCSV = (data: ForecastPoint[], filename: string, metrics?: Record<SummaryMetric, MetricSummary> | null) =>
+  downloadCSV(forecastCSV(data, metrics), filename);
+
+export interface ClassificationRow {
+  sku: string;
+  totalVolume: number;
+  share: number;
+  grade: string;
+  profile?: DemandProfile;
+  methodology?: ForecastMethodology;
+}
+
+export const classificationCSV = (rows: ClassificationRow[]) => {
+  const headers = ['SKU', 'Volume', 'Share %', 'ABC', 'ADI', 'CV2', 'Demand Class', 'Methodology'];
+  const csvRows = rows.map(r => [
+    r.sku,
+    r.totalVolume,
+    r.share.toFixed(2),
+    r.grade,
+    r.profile && Number.isFinite(r.profile.adi) ? r.profile.adi.toFixed(3) : '',
+    r.profile ? r.profile.cv2.toFixed(3) : '',
+    r.profile?.demandClass ?? '',
+    r.methodology ? `"${r.methodology}"` : ''
+  ].join(','));
+  return [headers.join(','), ...csvRows].join('\n');
+};
+
+export const exportClassificationCSV = (rows: ClassificationRow[], filename: string) => downloadCSV(classificationCSV(rows), filename);
+
+/** Forecast periods of each SKU plan with its inventory position; Reorder flags periods at or below the reorder point. */
+export const replenishmentCSV = (plans: { sku: string; category: string; points: ForecastPoint[] }[], grades: Map<string, string> = new Map()) => {
+  const headers = ['SKU', 'Category', 'ABC', 'Date', 'Planned Demand', 'Safety Stock', 'Reorder Point', 'Projected Inventory', 'Reorder', 'Projected Revenue', 'Inventory Value'];
+  const csvRows = plans.flatMap(({ sku, category, points }) => points.filter(p => p.isForecast).map(p => [
+    sku,
+    category,
+    grades.get(sku) ?? '',
+    p.date,
+    p.scenarioForecast ?? p.forecast,
+    p.safetyStock ?? '',
+    p.reorderPoint ?? '',
+    p.projectedInventory ?? '',
+    p.projectedInventory !== undefined && p.reorderPoint !== undefined && p.projectedInventory <= p.reorderPoint ? 'Yes' : 'No',
+    p.projectedRevenue ?? '',
+    p.inventoryValue ?? ''
+  ].join(',')));
+  return [headers.join(','), ...csvRows].join('\n');
+};
+
+/** Backtest metrics per model on the total, then the hierarchy's accuracy per level. */
+export const accuracyCSV = (backtest: BacktestResult | null, selected: ForecastMethodology, levels: LevelAccuracy[]) => {
+  const headers = ['Model', 'Specification', 'Selected', ...SUMMARY_METRICS.flatMap(key => [`${METRIC_LABELS[key]} Mean`, `${METRIC_LABELS[key]} Std Dev`])];
+  const modelRows = (backtest?.models ?? []).map(m => [
+    `"${m.method}"`,
+    m.label ? `"${m.label}"` : '',
+    m.method === selected ? 'Yes' : 'No',
+    ...SUMMARY_METRICS.flatMap(key => [m.metrics[key].mean.toFixed(4), m.metrics[key].std.toFixed(4)])
+  ].join(','));
+  const levelRows = levels.map(l => [l.level, l.nodes, l.baseWape.toFixed(4), l.reconciledWape.toFixed(4), l.accuracy.toFixed(4)].join(','));
+  return [headers.join(','), ...modelRows, '', 'Level,Nodes,Base WAPE,Reconciled WAPE,Accuracy', ...levelRows].join('\n');
+};
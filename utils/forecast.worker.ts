@@ -0,0 +1,19 @@
+import { executeTask, WorkerRequest, WorkerResponse } from './workerProtocol';
+
+/**
+ * Forecast pool worker: runs each task of a chunk in turn and posts one
+ * message per task, which is what drives the pool's progress count.
+ */
+
+const post = (message: WorkerResponse) => (self as unknown as Worker).postMessage(message);
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const { batch, tasks } = event.data;
+  tasks.forEach(task => {
+    try {
+      post({ type: 'result', batch, key: task.key, result: executeTask(task) });
+    } catch (e) {
+      post({ type: 'error', batch, key: task.key, message: e instanceof Error ? e.message : String(e) });
+    }
+  });
+};
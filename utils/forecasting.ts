@@ -1,5 +1,17 @@
 
-import { DataPoint, ForecastPoint, ForecastMetrics, ForecastMethodology } from '../types';
+import { DataPoint, ForecastPoint, ForecastMetrics, ForecastMethodology, ModelFit, ForecastOptions, EnsembleSpec, TimeInterval, DriverSeries, DriverKey, ModelComponentKey } from '../types';
+import { autoArima, forecastArima, describeArima, arimaPsiWeights } from './arima';
+import { fitEts, forecastEts, decomposeEts, describeEts, etsPsiWeights, EtsSpec } from './ets';
+import { fitIntermittent, describeIntermittent, IntermittentVariant } from './intermittent';
+import { combineSeries } from './ensemble';
+import { buildIntervals, DEFAULT_QUANTILES } from './intervals';
+import { SEASONAL_PERIODS, addPeriods, bucketStart } from './calendar';
+import { fitOls } from './regression';
+import { runAnalog, launchAge, launchIndex, ANALOG_MODEL } from './analogs';
+import { detectSeasonality, SeasonalityProfile } from './seasonality';
+import { fitAdditive, forecastAdditive, describeAdditive, additiveEventEffects } from './additive';
+import { eventRegressors, EventRegressor } from './events';
+import { decomposePath, decomposeSeasonalPath, pointDecomposition, MODEL_COMPONENT_KEYS } from './decomposition';
 
 /**
  * Statistics Helpers
@@ -11,93 +23,173 @@ const getStdDev = (values: number[]) => {
   return Math.sqrt(values.reduce((sq, x) => sq + Math.pow(x - mean, 2), 0) / n);
 };
 
-const getZMultiplier = (conf: number) => {
-  // Precision mapping for statistical confidence levels
-  if (conf >= 99) return 2.576;
-  if (conf >= 95) return 1.96;
-  if (conf >= 90) return 1.645;
-  if (conf >= 85) return 1.44;
-  if (conf >= 80) return 1.28;
-  return 1.96; // Default to 95%
+/**
+ * Mean absolute error of the in-sample seasonal-naive forecast, the MASE denominator.
+ */
+export const seasonalNaiveScale = (values: number[], period: number = 12) => {
+  const m = values.length > period ? period : 1;
+  let sum = 0;
+  for (let t = m; t < values.length; t++) sum += Math.abs(values[t] - values[t - m]);
+  return values.length > m ? sum / (values.length - m) : 0;
 };
 
 /**
- * Anomaly Cleaning (Outlier Smoothing)
+ * Methodologies that fit a model directly; meta-methodologies such as AUTO
+ * and ENSEMBLE are built on top of these.
  */
-export const cleanAnomalies = (data: DataPoint[]): DataPoint[] => {
-  const values = data.map(d => d.quantity);
-  const mean = values.reduce((a, b) => a + b, 0) / (values.length || 1);
-  const std = getStdDev(values);
-  
-  return data.map(d => {
-    const isAnomaly = Math.abs(d.quantity - mean) > 2.5 * std;
-    return isAnomaly ? { ...d, quantity: Math.round(mean) } : d;
-  });
+export const BASE_METHODOLOGIES = Object.values(ForecastMethodology).filter(
+  m => m !== ForecastMethodology.AUTO && m !== ForecastMethodology.ENSEMBLE
+);
+
+export const DEFAULT_ENSEMBLE: EnsembleSpec = {
+  members: [ForecastMethodology.HOLT_WINTERS, ForecastMethodology.HOLT_WINTERS_DAMPED, ForecastMethodology.ARIMA],
+  weighting: 'mean',
+  weights: [1 / 3, 1 / 3, 1 / 3]
 };
 
 /**
- * Holt-Winters Implementation (Base Triple Smoothing)
+ * Holt-Winters family with fitted smoothing parameters (see utils/ets.ts)
  */
-const runHoltWinters = (values: number[], horizon: number, L: number): number[] => {
-  const alpha = 0.3, beta = 0.1, gamma = 0.2;
-  let level = values[0];
-  let trend = values[1] - values[0];
-  const seasonal = new Array(L).fill(1);
-  for (let i = 0; i < Math.min(values.length, L); i++) seasonal[i] = values[i] / (level || 1);
-  
-  for (let i = 0; i < values.length; i++) {
-    const value = values[i];
-    const prevLevel = level;
-    level = alpha * (value / (seasonal[i % L] || 1)) + (1 - alpha) * (level + trend);
-    trend = beta * (level - prevLevel) + (1 - beta) * trend;
-    seasonal[i % L] = gamma * (value / (level || 1)) + (1 - gamma) * seasonal[i % L];
-  }
-  
-  const forecast = [];
-  for (let i = 1; i <= horizon; i++) {
-    forecast.push(Math.max(0, (level + i * trend) * seasonal[(values.length + i - 1) % L]));
-  }
-  return forecast;
+const runHoltWinters = (values: number[], horizon: number, spec: EtsSpec): ModelFit => {
+  const model = fitEts(values, spec);
+  return {
+    forecast: forecastEts(model, horizon).map(v => Math.max(0, v)),
+    fitted: model.fitted,
+    psiWeights: etsPsiWeights(model, horizon),
+    label: describeEts(model),
+    decomposition: decomposeEts(model, horizon)
+  };
 };
 
 /**
- * Prophet-Inspired Simulation (Additive Trend + Stronger Seasonality)
+ * Additive trend + Fourier seasonality + event model (see utils/additive.ts)
  */
-const runProphet = (values: number[], horizon: number): number[] => {
-  const n = values.length;
-  // Use last year's pattern more aggressively
-  const forecast = [];
-  const recentValues = values.slice(-12);
-  const avgGrowth = (values[n-1] - values[0]) / n;
-
-  for (let i = 1; i <= horizon; i++) {
-    const seasonalBase = recentValues[(i - 1) % 12];
-    // Add slightly more bullish trend for Prophet simulation
-    const simulatedVal = seasonalBase + (avgGrowth * 1.2 * i);
-    forecast.push(Math.max(0, simulatedVal));
-  }
-  return forecast;
+const runAdditive = (values: number[], horizon: number, L: number, events: EventRegressor[]): ModelFit => {
+  const model = fitAdditive(values, L, events);
+  const { forecast, stdErrors, components } = forecastAdditive(model, horizon, events);
+  return {
+    forecast: forecast.map(v => Math.max(0, v)),
+    fitted: model.fitted,
+    stdErrors,
+    // Residuals around a fitted curve are independent; trend uncertainty lives in stdErrors
+    psiWeights: forecast.map((_, j) => (j === 0 ? 1 : 0)),
+    label: describeAdditive(model),
+    components: { ...components, changepoints: model.changepoints, eventEffects: additiveEventEffects(model) },
+    // The trend at the forecast origin is the level; the horizon's slope is the trend
+    decomposition: {
+      level: forecast.map(() => components.trend[values.length - 1]),
+      trend: forecast.map((_, h) => components.trend[values.length + h] - components.trend[values.length - 1]),
+      seasonal: components.seasonal.slice(values.length),
+      other: components.events.slice(values.length)
+    }
+  };
 };
 
 /**
- * ARIMA Simulation (Auto-Regressive, focusing on last few lags)
+ * Seasonal ARIMA with automatic order selection (see utils/arima.ts)
  */
-const runArima = (values: number[], horizon: number): number[] => {
+const runArima = (values: number[], horizon: number, L: number): ModelFit => {
+  const model = autoArima(values, { seasonalPeriod: L });
+  if (!model) return { forecast: new Array(horizon).fill(values[values.length - 1]) };
+  const { forecast, stdErrors } = forecastArima(model, horizon);
+  return {
+    forecast: forecast.map(v => Math.max(0, v)),
+    fitted: model.fitted,
+    stdErrors,
+    psiWeights: arimaPsiWeights(model, horizon),
+    label: describeArima(model),
+    decomposition: decomposeSeasonalPath(forecast, values, L)
+  };
+};
+
+/**
+ * Drivers away from their historical mean are "other" effects; the rest of
+ * the path is split like a seasonal ARIMA forecast.
+ */
+const withDriverEffects = (forecast: number[], effects: number[], values: number[], L: number) => {
+  const parts = decomposeSeasonalPath(forecast.map((f, h) => f - effects[h]), values, L);
+  return { ...parts, other: effects };
+};
+
+/**
+ * Regression on the drivers (plus intercept and linear trend) with the
+ * remaining error modelled by auto-ARIMA. Coefficients come from a first-stage
+ * OLS fit; without usable drivers this is plain ARIMA.
+ */
+const runArimax = (values: number[], horizon: number, L: number, drivers?: DriverSeries): ModelFit => {
   const n = values.length;
-  const forecast = [];
-  let currentVal = values[n-1];
-  const arCoefficient = 0.85; // Strong AR factor
-
-  for (let i = 1; i <= horizon; i++) {
-    // Regress towards the long term mean
-    const mean = values.reduce((a,b) => a+b, 0) / n;
-    currentVal = mean + arCoefficient * (currentVal - mean);
-    forecast.push(Math.max(0, currentVal));
+  const keys = (Object.keys(drivers?.history || {}) as DriverKey[]).filter(k => {
+    const x = drivers!.history[k]!;
+    const xMean = x.reduce((a, b) => a + b, 0) / (x.length || 1);
+    return x.length === n && (drivers!.future[k]?.length ?? 0) >= horizon && x.some(v => Math.abs(v - xMean) > 1e-9);
+  });
+  if (keys.length === 0 || n < keys.length + 6) {
+    const fit = runArima(values, horizon, L);
+    return { ...fit, label: fit.label && `${fit.label} · no drivers` };
   }
-  return forecast;
+
+  const row = (t: number, x: (k: DriverKey) => number) => [1, t, ...keys.map(x)];
+  const X = values.map((_, t) => row(t, k => drivers!.history[k]![t]));
+  const ols = fitOls(values, X);
+  const errorModel = autoArima(ols.residuals, { seasonalPeriod: L });
+  const errorForecast = errorModel ? forecastArima(errorModel, horizon) : null;
+
+  const forecast = Array.from({ length: horizon }, (_, h) => {
+    const regression = row(n + h, k => drivers!.future[k]![h]).reduce((s, v, j) => s + v * ols.coefficients[j], 0);
+    return Math.max(0, regression + (errorForecast?.forecast[h] ?? 0));
+  });
+  const fitted = errorModel
+    ? errorModel.fitted.map((f, t) => (f === null ? null : ols.fitted[t] + f))
+    : ols.fitted;
+
+  const yMean = values.reduce((a, b) => a + b, 0) / n;
+  const coefficients = keys.map((driver, i) => {
+    const j = i + 2;
+    const x = drivers!.history[driver]!;
+    const xMean = x.reduce((a, b) => a + b, 0) / n;
+    const coefficient = ols.coefficients[j];
+    return {
+      driver,
+      coefficient,
+      stdError: ols.stdErrors[j],
+      tStat: ols.stdErrors[j] > 0 ? coefficient / ols.stdErrors[j] : 0,
+      elasticity: yMean !== 0 ? (driver === 'promo' ? coefficient / yMean : coefficient * xMean / yMean) : 0
+    };
+  });
+
+  return {
+    forecast,
+    fitted,
+    stdErrors: errorForecast?.stdErrors,
+    psiWeights: errorModel ? arimaPsiWeights(errorModel, horizon) : undefined,
+    drivers: coefficients,
+    label: `Reg[${keys.join(', ')}] + ${errorModel ? describeArima(errorModel) : 'OLS'}`,
+    decomposition: withDriverEffects(forecast, Array.from({ length: horizon }, (_, h) =>
+      coefficients.reduce((s, c) => {
+        const x = drivers!.history[c.driver]!;
+        return s + c.coefficient * (drivers!.future[c.driver]![h] - x.reduce((a, b) => a + b, 0) / n);
+      }, 0)
+    ), values, L)
+  };
+};
+
+/**
+ * Croston-family estimators for intermittent demand (see utils/intermittent.ts)
+ */
+const runIntermittent = (values: number[], horizon: number, variant: IntermittentVariant): ModelFit => {
+  const model = fitIntermittent(values, variant);
+  return {
+    forecast: new Array(horizon).fill(model.rate),
+    fitted: model.fitted,
+    // Each future period is an independent draw from the size/occurrence mixture
+    stdErrors: new Array(horizon).fill(model.demandStdDev),
+    psiWeights: new Array(horizon).fill(0).map((_, j) => (j === 0 ? 1 : 0)),
+    demandStdDev: model.demandStdDev,
+    label: describeIntermittent(model)
+  };
 };
 
-const runLinear = (values: number[], horizon: number): number[] => {
+const runLinear = (values: number[], horizon: number): ModelFit => {
   const n = values.length;
   let sumX = 0, sumY = 0, sumXY = 0, sumXX = 0;
   for (let i = 0; i < n; i++) { sumX += i; sumY += values[i]; sumXY += i * values[i]; sumXX += i * i; }
@@ -105,74 +197,174 @@ const runLinear = (values: number[], horizon: number): number[] => {
   const intercept = (sumY - slope * sumX) / n;
   const forecast = [];
   for (let i = 1; i <= horizon; i++) forecast.push(Math.max(0, slope * (n + i - 1) + intercept));
-  return forecast;
+  // Independent errors around a fixed line: intervals do not widen with the step
+  const psiWeights = forecast.map((_, j) => (j === 0 ? 1 : 0));
+  return { forecast, fitted: values.map((_, t) => slope * t + intercept), psiWeights };
+};
+
+const fitMethod = (
+  values: number[],
+  horizon: number,
+  L: number,
+  method: ForecastMethodology,
+  options: ForecastOptions,
+  events: EventRegressor[] = []
+): ModelFit => {
+  switch (method) {
+    case ForecastMethodology.LINEAR: return runLinear(values, horizon);
+    case ForecastMethodology.PROPHET: return runAdditive(values, horizon, L, events);
+    case ForecastMethodology.ARIMA: return runArima(values, horizon, L);
+    case ForecastMethodology.ARIMAX: return runArimax(values, horizon, L, options.drivers);
+    case ForecastMethodology.CROSTON: return runIntermittent(values, horizon, 'croston');
+    case ForecastMethodology.SBA: return runIntermittent(values, horizon, 'sba');
+    case ForecastMethodology.TSB: return runIntermittent(values, horizon, 'tsb');
+    case ForecastMethodology.ENSEMBLE: return runEnsemble(values, horizon, L, options.ensemble ?? DEFAULT_ENSEMBLE, options.drivers, events);
+    case ForecastMethodology.HOLT_WINTERS_ADDITIVE: return runHoltWinters(values, horizon, { seasonal: 'additive', damped: false, period: L });
+    case ForecastMethodology.HOLT_WINTERS_DAMPED: return runHoltWinters(values, horizon, { seasonal: 'multiplicative', damped: true, period: L });
+    case ForecastMethodology.HOLT_WINTERS_ADDITIVE_DAMPED: return runHoltWinters(values, horizon, { seasonal: 'additive', damped: true, period: L });
+    case ForecastMethodology.HOLT_WINTERS:
+    default: return runHoltWinters(values, horizon, { seasonal: 'multiplicative', damped: false, period: L });
+  }
+};
+
+/**
+ * Blends member forecasts (see utils/ensemble.ts). Intervals come from the
+ * residuals of the blended in-sample fit, widening with the square root of the step.
+ */
+const runEnsemble = (values: number[], horizon: number, L: number, spec: EnsembleSpec, drivers: DriverSeries | undefined, events: EventRegressor[]): ModelFit => {
+  const fits = spec.members.map(m => fitMethod(values, horizon, L, m, { drivers }, events));
+  const forecast = combineSeries(fits.map(f => f.forecast), spec.weights, spec.weighting) as number[];
+  const fitted = combineSeries(fits.map(f => f.fitted ?? values.map(() => null)), spec.weights, spec.weighting);
+
+  const residuals = fitted.flatMap((f, t) => (f === null ? [] : [values[t] - f]));
+  const sigma = residuals.length > 1 ? Math.sqrt(residuals.reduce((s, r) => s + r * r, 0) / residuals.length) : getStdDev(values);
+
+  return {
+    forecast: forecast.map(v => Math.max(0, v)),
+    fitted,
+    stdErrors: forecast.map((_, i) => sigma * Math.sqrt(i + 1)),
+    weights: spec.members.map((method, i) => ({ method, weight: spec.weights[i] })),
+    label: `${spec.members.length} members · ${spec.weighting}`,
+    // Weighted means combine component by component; a median has no such split
+    decomposition: spec.weighting === 'median' ? undefined : Object.fromEntries(MODEL_COMPONENT_KEYS.map(k => [
+      k,
+      combineSeries(fits.map(f => (f.decomposition ?? decomposePath(f.forecast))[k]), spec.weights, spec.weighting) as number[]
+    ])) as Record<ModelComponentKey, number[]>
+  };
 };
 
+export interface ForecastRun {
+  points: ForecastPoint[];
+  fit: ModelFit | null;
+  /** Bootstrapped future sample paths, when bootstrap intervals were requested. */
+  samplePaths?: number[][];
+  /** Seasonal period detected on this series and used by the model. */
+  seasonality?: SeasonalityProfile;
+}
+
+/**
+ * Forecast of one series: the per-series entry point every forecast and
+ * backtest task of the engine runs. Returns both the chart-ready points and the fitted model details.
+ * AUTO has to be resolved by the caller first; here it falls through to Holt-Winters.
+ * Items with analogs are forecast from the analog launch curves until they reach the handover age.
+ * The seasonal period is detected per series; non-seasonal series get period 1,
+ * which turns Holt-Winters into Holt's trend method and ARIMA into its non-seasonal form.
+ */
 export const calculateForecast = (
   historicalData: DataPoint[],
   horizon: number,
-  interval: 'monthly' = 'monthly',
+  interval: TimeInterval = TimeInterval.MONTHLY,
   confidenceLevel: number = 95,
-  method: ForecastMethodology = ForecastMethodology.HOLT_WINTERS
-): ForecastPoint[] => {
-  if (historicalData.length < 3) return [];
+  method: ForecastMethodology = ForecastMethodology.HOLT_WINTERS,
+  options: ForecastOptions = {}
+): ForecastRun => {
   const values = historicalData.map(d => d.quantity);
+  const useAnalog = !!options.analog && launchAge(values) < options.analog.handover;
+  if (historicalData.length < (useAnalog ? 1 : 3)) return { points: [], fit: null };
   const n = values.length;
-  const L = 12; // Monthly seasonality
+  const seasonality = detectSeasonality(values, interval);
+  const L = seasonality.period;
+  const lastDate = historicalData[n - 1].date;
+  const futureDates = Array.from({ length: horizon }, (_, i) => addPeriods(lastDate, interval, i + 1));
+  const events = eventRegressors(options.events ?? [], historicalData.map(d => d.date), futureDates, interval);
 
-  let forecastValues: number[];
-  switch (method) {
-    case ForecastMethodology.LINEAR: forecastValues = runLinear(values, horizon); break;
-    case ForecastMethodology.PROPHET: forecastValues = runProphet(values, horizon); break;
-    case ForecastMethodology.ARIMA: forecastValues = runArima(values, horizon); break;
-    case ForecastMethodology.HOLT_WINTERS:
-    default: forecastValues = runHoltWinters(values, horizon, L); break;
-  }
+  // An item yet to sell waits for its launch date; analog curves are too young to show a cycle of their own, so they average over the calendar one
+  const launch = options.analog?.launchDate && bucketStart(options.analog.launchDate, interval);
+  const delay = launch && launchIndex(values) === n ? futureDates.filter(d => d < launch).length : 0;
+  const fit = useAnalog ? runAnalog(values, horizon, SEASONAL_PERIODS[interval], options.analog!, delay) : fitMethod(values, horizon, L, method, options, events);
+  const intervals = buildIntervals(values, fit, {
+    method: options.intervals?.method ?? 'analytic',
+    confidenceLevel,
+    quantiles: options.intervals?.quantiles ?? DEFAULT_QUANTILES,
+    paths: options.intervals?.paths
+  });
+  // One-step residual spread is the safety stock input unless the model implies its own
+  fit.demandStdDev = fit.demandStdDev ?? intervals.residualStdDev;
 
   const results: ForecastPoint[] = historicalData.map(d => ({
     date: d.date, historical: d.quantity, forecast: d.quantity, isForecast: false
   }));
 
-  const multiplier = getZMultiplier(confidenceLevel);
-  const stdDev = getStdDev(values);
-  const lastDate = new Date(historicalData[n - 1].date);
-
-  forecastValues.forEach((val, i) => {
-    const step = i + 1;
-    const forecastDate = new Date(lastDate);
-    forecastDate.setMonth(lastDate.getMonth() + step);
-
-    const uncertainty = multiplier * stdDev * Math.sqrt(step) * 0.4;
+  const parts = fit.decomposition ?? decomposePath(fit.forecast);
+  fit.forecast.forEach((val, i) => {
     results.push({
-      date: forecastDate.toISOString().split('T')[0],
+      date: futureDates[i],
       forecast: Math.round(val),
-      lowerBound: Math.max(0, Math.round(val - uncertainty)),
-      upperBound: Math.round(val + uncertainty),
+      lowerBound: Math.round(intervals.lower[i]),
+      upperBound: Math.round(intervals.upper[i]),
+      quantiles: Object.fromEntries(Object.entries(intervals.quantiles[i]).map(([k, v]) => [k, Math.round(v)])),
+      model: useAnalog ? ANALOG_MODEL : method,
+      decomposition: pointDecomposition(parts, i, Math.round(val)),
       isForecast: true
     });
   });
 
-  return results;
+  return { points: results, fit, samplePaths: intervals.samplePaths, seasonality };
 };
 
-export const calculateMetrics = (actual: number[], forecast: number[], unitCost: number, sellingPrice: number): ForecastMetrics => {
+/**
+ * Accuracy of a forecast against actuals. `naive` is the benchmark forecast
+ * for FVA (usually the last actual carried forward); without it FVA is 0.
+ */
+export const calculateMetrics = (
+  actual: number[],
+  forecast: number[],
+  unitCost: number,
+  sellingPrice: number,
+  maseScale: number = 0,
+  naive: number[] = []
+): ForecastMetrics => {
   let sumAbsError = 0, sumSqError = 0, sumActual = 0, sumError = 0;
+  let sumApe = 0, apeCount = 0, sumSape = 0, sapeCount = 0, overUnits = 0, underUnits = 0, sumNaiveError = 0;
   const n = Math.min(actual.length, forecast.length);
   for (let i = 0; i < n; i++) {
     const error = forecast[i] - actual[i];
     sumError += error;
     sumAbsError += Math.abs(error);
     sumSqError += error * error;
-    sumActual += actual[i];
+    sumActual += Math.abs(actual[i]);
+    if (actual[i] !== 0) { sumApe += Math.abs(error) / Math.abs(actual[i]); apeCount++; }
+    const scale = Math.abs(actual[i]) + Math.abs(forecast[i]);
+    if (scale > 0) { sumSape += (2 * Math.abs(error)) / scale; sapeCount++; }
+    if (error > 0) overUnits += error;
+    else underUnits -= error;
+    if (naive.length > i) sumNaiveError += Math.abs(naive[i] - actual[i]);
   }
-  const mape = n > 0 ? (sumAbsError / sumActual) * 100 : 0;
+  const mad = sumAbsError / (n || 1);
+  const wape = n > 0 ? (sumAbsError / (sumActual || 1)) * 100 : 0;
+  const naiveWape = (sumNaiveError / (sumActual || 1)) * 100;
   return {
-    mape,
+    mape: apeCount > 0 ? (sumApe / apeCount) * 100 : 0,
+    wape,
+    smape: sapeCount > 0 ? (sumSape / sapeCount) * 100 : 0,
+    mase: maseScale > 0 ? mad / maseScale : 0,
     rmse: Math.sqrt(sumSqError / (n || 1)),
     bias: (sumError / (sumActual || 1)) * 100,
-    mad: sumAbsError / (n || 1),
-    accuracy: Math.max(0, 100 - mape),
-    holdingCostRisk: 0,
-    stockoutRevenueRisk: 0
+    mad,
+    trackingSignal: mad > 0 ? sumError / mad : 0,
+    fva: n > 0 && naive.length >= n ? naiveWape - wape : 0,
+    accuracy: Math.max(0, 100 - wape),
+    holdingCostRisk: overUnits * unitCost,
+    stockoutRevenueRisk: underUnits * sellingPrice
   };
 };
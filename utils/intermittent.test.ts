@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { fitIntermittent, describeIntermittent } from './intermittent';
+
+const SLOW = [0, 0, 4, 0, 0, 0, 6, 0, 5, 0, 0, 3, 0, 0, 0, 4, 0, 6, 0, 0, 0, 5, 0, 4];
+
+describe('fitIntermittent', () => {
+  it('forecasts nothing for a series without demand', () => {
+    const model = fitIntermittent(new Array(12).fill(0), 'croston');
+    expect(model.rate).toBe(0);
+    expect(model.fitted.every(f => f === null)).toBe(true);
+  });
+
+  it('leaves the fit undefined until the first demand', () => {
+    const model = fitIntermittent(SLOW, 'sba');
+    expect(model.fitted.slice(0, 3)).toEqual([null, null, null]);
+    expect(model.fitted[3]).not.toBeNull();
+  });
+
+  it('applies the SBA debiasing factor to the Croston rate', () => {
+    const croston = fitIntermittent(SLOW, 'croston');
+    const sba = fitIntermittent(SLOW, 'sba');
+    // Same smoothing weight and sizes, so only the factor separates the rates
+    expect(sba.alpha).toBe(croston.alpha);
+    expect(sba.size).toBeCloseTo(croston.size);
+    expect(sba.rate).toBeCloseTo(croston.rate * (1 - sba.alpha / 2));
+    expect(sba.rate).toBeLessThan(croston.rate);
+  });
+
+  it('seeds the TSB probability without looking past the first demand', () => {
+    const busyTail = [...SLOW.slice(0, 4), ...new Array(20).fill(5)];
+    const first = fitIntermittent(SLOW, 'tsb').fitted[3];
+    const second = fitIntermittent(busyTail, 'tsb').fitted[3];
+    // First demand at t = 2: one demand in three periods, size 4
+    expect(first).toBeCloseTo(4 / 3);
+    expect(second).toBeCloseTo(first!);
+  });
+
+  it('keeps the TSB probability within [0, 1] and the rate at size × probability', () => {
+    const model = fitIntermittent(SLOW, 'tsb');
+    expect(model.probability).toBeGreaterThan(0);
+    expect(model.probability).toBeLessThanOrEqual(1);
+    expect(model.rate).toBeCloseTo(model.size * model.probability);
+    expect(describeIntermittent(model)).toMatch(/^α=\S+ β=\S+ p\(demand\)=\S+$/);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Intermittent-demand estimators (Croston, SBA, TSB) for slow-moving SKUs.
+ * Each produces a flat per-period demand rate plus the spread of the
+ * zero-inflated demand it implies.
+ */
+
+export type IntermittentVariant = 'croston' | 'sba' | 'tsb';
+
+export interface IntermittentModel {
+  variant: IntermittentVariant;
+  alpha: number;
+  beta: number;
+  /** Smoothed size of a non-zero demand. */
+  size: number;
+  /** Smoothed probability that a period has demand. */
+  probability: number;
+  rate: number;
+  /** Standard deviation of one period's demand under the fitted size/occurrence model. */
+  demandStdDev: number;
+  fitted: (number | null)[];
+}
+
+const SMOOTHING_GRID = [0.05, 0.1, 0.15, 0.2, 0.25, 0.3];
+
+const runCroston = (values: number[], alpha: number, debias: boolean) => {
+  const firstDemand = values.findIndex(v => v > 0);
+  const fitted: (number | null)[] = values.map(() => null);
+  if (firstDemand === -1) return { size: 0, interval: Infinity, fitted };
+
+  let size = values[firstDemand];
+  let interval = firstDemand + 1;
+  let sinceLast = 1;
+  const factor = debias ? 1 - alpha / 2 : 1;
+  for (let t = firstDemand + 1; t < values.length; t++) {
+    fitted[t] = factor * size / interval;
+    if (values[t] > 0) {
+      size = alpha * values[t] + (1 - alpha) * size;
+      interval = alpha * sinceLast + (1 - alpha) * interval;
+      sinceLast = 1;
+    } else {
+      sinceLast++;
+    }
+  }
+  return { size, interval, fitted };
+};
+
+const runTsb = (values: number[], alpha: number, beta: number) => {
+  const firstDemand = values.findIndex(v => v > 0);
+  const fitted: (number | null)[] = values.map(() => null);
+  if (firstDemand === -1) return { size: 0, probability: 0, fitted };
+
+  let size = values[firstDemand];
+  // Seeded like Croston's first interval, so the in-sample fit never sees later periods
+  let probability = 1 / (firstDemand + 1);
+  for (let t = firstDemand + 1; t < values.length; t++) {
+    fitted[t] = probability * size;
+    probability = beta * (values[t] > 0 ? 1 : 0) + (1 - beta) * probability;
+    if (values[t] > 0) size = alpha * values[t] + (1 - alpha) * size;
+  }
+  return { size, probability, fitted };
+};
+
+const meanSquaredError = (values: number[], fitted: (number | null)[]) => {
+  let sum = 0, n = 0;
+  fitted.forEach((f, t) => { if (f !== null) { sum += (values[t] - f) ** 2; n++; } });
+  return n > 0 ? sum / n : Infinity;
+};
+
+export const fitIntermittent = (values: number[], variant: IntermittentVariant): IntermittentModel => {
+  const sizes = values.filter(v => v > 0);
+  const sizeMean = sizes.reduce((a, b) => a + b, 0) / (sizes.length || 1);
+  const sizeVar = sizes.reduce((s, v) => s + (v - sizeMean) ** 2, 0) / (sizes.length || 1);
+
+  let best: IntermittentModel | null = null;
+  let bestError = Infinity;
+  SMOOTHING_GRID.forEach(alpha => {
+    (variant === 'tsb' ? SMOOTHING_GRID : [0]).forEach(beta => {
+      let size: number, probability: number, rate: number, fitted: (number | null)[];
+      if (variant === 'tsb') {
+        ({ size, probability, fitted } = runTsb(values, alpha, beta));
+        rate = probability * size;
+      } else {
+        const run = runCroston(values, alpha, variant === 'sba');
+        ({ size, fitted } = run);
+        probability = Number.isFinite(run.interval) ? Math.min(1, 1 / run.interval) : 0;
+        rate = (variant === 'sba' ? 1 - alpha / 2 : 1) * size * probability;
+      }
+      const error = meanSquaredError(values, fitted);
+      if (!best || error < bestError) {
+        bestError = error;
+        const demandStdDev = Math.sqrt(probability * sizeVar + probability * (1 - probability) * size * size);
+        best = { variant, alpha, beta, size, probability, rate, demandStdDev, fitted };
+      }
+    });
+  });
+  return best!;
+};
+
+export const describeIntermittent = ({ variant, alpha, beta, probability }: IntermittentModel) => {
+  const parts = [`α=${alpha.toFixed(2)}`];
+  if (variant === 'tsb') parts.push(`β=${beta.toFixed(2)}`);
+  parts.push(`p(demand)=${probability.toFixed(2)}`);
+  return parts.join(' ');
+};
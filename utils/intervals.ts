@@ -0,0 +1,125 @@
+import { ModelFit, IntervalMethod } from '../types';
+
+/**
+ * Prediction intervals and quantiles built from each model's own one-step
+ * residuals. Errors propagate over the horizon through the model's
+ * psi-weights: e(h) = Σ_{j<h} ψ_j · r_{h-j}.
+ */
+
+export interface IntervalConfig {
+  method: IntervalMethod;
+  confidenceLevel: number;
+  /** Probabilities to report, e.g. [0.1, 0.5, 0.9]. */
+  quantiles: number[];
+  /** Number of bootstrap sample paths. */
+  paths?: number;
+  seed?: number;
+}
+
+export interface IntervalResult {
+  lower: number[];
+  upper: number[];
+  /** One map per step, keyed by quantile label (P10, P50, ...). */
+  quantiles: Record<string, number>[];
+  residualStdDev: number;
+  samplePaths?: number[][];
+}
+
+export const DEFAULT_QUANTILES = [0.1, 0.5, 0.9];
+
+export const quantileLabel = (p: number) => `P${Math.round(p * 100)}`;
+
+/**
+ * Inverse standard normal CDF (Acklam's rational approximation).
+ */
+export const normalQuantile = (p: number) => {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) return -normalQuantile(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+const empiricalQuantile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * Math.min(Math.max(p, 0), 1);
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+/** Small seeded PRNG so bootstrap bands are stable between renders. */
+const mulberry32 = (seed: number) => () => {
+  seed |= 0; seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const fitResiduals = (values: number[], fitted?: (number | null)[]) => {
+  if (!fitted) return values.slice(1).map((v, i) => v - values[i]);
+  return fitted.flatMap((f, t) => (f === null || !Number.isFinite(f) ? [] : [values[t] - f]));
+};
+
+export const buildIntervals = (values: number[], fit: ModelFit, config: IntervalConfig): IntervalResult => {
+  const { method, confidenceLevel, quantiles, paths = 500, seed = 42 } = config;
+  const horizon = fit.forecast.length;
+  const residuals = fitResiduals(values, fit.fitted);
+  const meanResidual = residuals.reduce((a, b) => a + b, 0) / (residuals.length || 1);
+  const centred = residuals.map(r => r - meanResidual);
+  const residualStdDev = Math.sqrt(centred.reduce((s, r) => s + r * r, 0) / (centred.length || 1));
+
+  const psi = fit.psiWeights ?? new Array(horizon).fill(1);
+  let cumulative = 0;
+  const growth = fit.forecast.map((_, h) => { cumulative += (psi[h] ?? 1) ** 2; return Math.sqrt(cumulative); });
+
+  const tail = (1 - confidenceLevel / 100) / 2;
+  const probs = [tail, 1 - tail, ...quantiles];
+  const clamp = (v: number) => Math.max(0, v);
+
+  let perStep: number[][];
+  let samplePaths: number[][] | undefined;
+
+  if (method === 'bootstrap' && centred.length > 1) {
+    const rand = mulberry32(seed);
+    samplePaths = Array.from({ length: paths }, () => {
+      const draws = fit.forecast.map(() => centred[Math.floor(rand() * centred.length)]);
+      return fit.forecast.map((f, h) => {
+        let e = 0;
+        for (let j = 0; j <= h; j++) e += (psi[j] ?? 1) * draws[h - j];
+        return clamp(f + e);
+      });
+    });
+    perStep = fit.forecast.map((_, h) => {
+      const sorted = samplePaths!.map(p => p[h]).sort((a, b) => a - b);
+      return probs.map(p => empiricalQuantile(sorted, p));
+    });
+  } else if (method === 'empirical' && centred.length > 1) {
+    const sorted = [...centred].sort((a, b) => a - b);
+    perStep = fit.forecast.map((f, h) => probs.map(p => clamp(f + empiricalQuantile(sorted, p) * growth[h])));
+  } else {
+    // Analytic: the model's own standard errors where it has them, otherwise residual sigma with psi growth
+    perStep = fit.forecast.map((f, h) => {
+      const se = fit.stdErrors?.[h] ?? residualStdDev * growth[h];
+      return probs.map(p => clamp(f + normalQuantile(p) * se));
+    });
+  }
+
+  return {
+    lower: perStep.map(q => q[0]),
+    upper: perStep.map(q => q[1]),
+    quantiles: perStep.map(q => Object.fromEntries(quantiles.map((p, i) => [quantileLabel(p), q[i + 2]]))),
+    residualStdDev,
+    samplePaths
+  };
+};
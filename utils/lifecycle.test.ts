@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { DataPoint, ForecastPoint, Supersession } from '../types';
+import { DECOMPOSITION_KEYS } from './decomposition';
+import { chainSupersessions, pendingSupersessions, resolveSuccessor, endOfLifeDates, applyEndOfLife, rampedVolume, receiveVolume } from './lifecycle';
+
+const TABLE: Supersession[] = [
+  { id: 's1', oldSku: 'A', newSku: 'B', effectiveDate: '2024-03-01', ratio: 0.5 },
+  { id: 's2', oldSku: 'B', newSku: 'C', effectiveDate: '2024-09-01', ratio: 2 }
+];
+
+const DATA: DataPoint[] = [
+  { date: '2024-01-01', sku: 'A', category: 'Audio', quantity: 100 },
+  { date: '2024-03-01', sku: 'A', category: 'Audio', quantity: 10 },
+  { date: '2024-01-01', sku: 'B', category: 'Audio', quantity: 20 }
+];
+
+const LEVEL_ONLY = Object.fromEntries(DECOMPOSITION_KEYS.map(k => [k, k === 'level' ? 100 : 0])) as ForecastPoint['decomposition'];
+
+// Two months of history, then four forecast months of 100 with ±20 bounds
+const POINTS: ForecastPoint[] = [
+  { date: '2024-04-01', historical: 90, forecast: 90, isForecast: false },
+  { date: '2024-05-01', historical: 95, forecast: 95, isForecast: false },
+  ...['2024-06-01', '2024-07-01', '2024-08-01', '2024-09-01'].map(date => ({
+    date, forecast: 100, lowerBound: 80, upperBound: 120, quantiles: { '0.9': 115 }, decomposition: LEVEL_ONLY, isForecast: true
+  }))
+];
+
+describe('resolveSuccessor', () => {
+  it('follows the chain to the last successor and multiplies the ratios', () => {
+    expect(resolveSuccessor('A', TABLE)).toEqual({ sku: 'C', ratio: 1 });
+    expect(resolveSuccessor('C', TABLE)).toEqual({ sku: 'C', ratio: 1 });
+  });
+
+  it('stops at the first repeat in a cycle', () => {
+    const cycle = [...TABLE, { id: 's3', oldSku: 'C', newSku: 'A', effectiveDate: '2024-10-01', ratio: 1 }];
+    expect(resolveSuccessor('A', cycle).sku).toBe('C');
+  });
+});
+
+describe('chainSupersessions', () => {
+  it('moves history before the effective date onto the successor and keeps the run-out', () => {
+    const { data, links } = chainSupersessions(DATA, TABLE, '2024-05-01');
+    expect(data.map(d => `${d.sku}:${d.quantity}`)).toEqual(['B:50', 'A:10', 'B:20']);
+    expect(links).toEqual([{ oldSku: 'A', newSku: 'B', rows: 1, volume: 50 }]);
+  });
+
+  it('leaves the history alone while the supersession is pending', () => {
+    expect(chainSupersessions(DATA, TABLE, '2024-02-01').data).toBe(DATA);
+    expect(pendingSupersessions(TABLE, '2024-05-01').map(s => s.id)).toEqual(['s2']);
+  });
+});
+
+describe('applyEndOfLife', () => {
+  it('takes the earlier of the phase-out and supersession dates', () => {
+    const dates = endOfLifeDates([{ sku: 'B', category: 'Audio', leadTimeDays: 7, unitCost: 1, sellingPrice: 2, serviceLevel: 0.95, endOfLifeDate: '2024-07-01' }], TABLE);
+    expect(dates.get('A')).toBe('2024-03-01');
+    expect(dates.get('B')).toBe('2024-07-01');
+  });
+
+  it('ramps the forecast and its bounds down to zero on the end-of-life date', () => {
+    const ramped = applyEndOfLife(POINTS, '2024-08-01');
+    expect(ramped.slice(0, 2)).toEqual(POINTS.slice(0, 2));
+    expect(ramped.slice(2).map(p => p.forecast)).toEqual([66, 34, 0, 0]);
+    expect(ramped[2].upperBound).toBe(80);
+    expect(ramped[2].decomposition?.lifecycle).toBe(-34);
+  });
+});
+
+describe('supersession hand-over', () => {
+  it('passes the ramped-down demand to the successor in its units', () => {
+    const ramped = applyEndOfLife(POINTS, '2024-08-01');
+    const volume = rampedVolume(POINTS, ramped, 0.5);
+    expect(Array.from(volume.entries())).toEqual([['2024-06-01', 17], ['2024-07-01', 33], ['2024-08-01', 50], ['2024-09-01', 50]]);
+
+    const successor = receiveVolume(POINTS, volume);
+    expect(successor.slice(0, 2)).toEqual(POINTS.slice(0, 2));
+    expect(successor.slice(2).map(p => p.forecast)).toEqual([117, 133, 150, 150]);
+    expect(successor[3].lowerBound).toBe(113);
+    expect(successor[3].quantiles).toEqual({ '0.9': 148 });
+    expect(successor[3].decomposition?.lifecycle).toBe(33);
+  });
+});
@@ -0,0 +1,152 @@
+import { DataPoint, ForecastPoint, InventoryLevel, ProductAttribute, Supersession } from '../types';
+import { scalePoint, shiftPoint } from './decomposition';
+
+/**
+ * Product lifecycle: supersession chains that carry an old SKU's demand
+ * history onto its successor, and end-of-life ramp-downs for phase-out items.
+ */
+
+export interface ChainLink {
+  oldSku: string;
+  newSku: string;
+  rows: number;
+  /** History volume moved onto the successor, in successor units. */
+  volume: number;
+}
+
+export interface ObsolescenceRisk {
+  sku: string;
+  successor?: string;
+  endOfLife: string;
+  onHand: number;
+  /** Stock projected to remain when demand stops. */
+  unitsAtRisk: number;
+  valueAtRisk: number;
+  /** False when the end-of-life date lies past the forecast horizon. */
+  withinHorizon: boolean;
+}
+
+const dayMs = 24 * 60 * 60 * 1000;
+const toTime = (date: string) => new Date(`${date.slice(0, 10)}T00:00:00Z`).getTime();
+
+/** Supersessions already in force on the as-of date; later ones are still pending. */
+export const activeSupersessions = (table: Supersession[], asOf: string) => table.filter(s => s.effectiveDate <= asOf);
+
+export const pendingSupersessions = (table: Supersession[], asOf: string) => table.filter(s => s.effectiveDate > asOf);
+
+/**
+ * Final successor of a SKU with the combined unit ratio, following chains
+ * such as A → B → C. Cycles stop at the first repeat.
+ */
+export const resolveSuccessor = (sku: string, table: Supersession[]): { sku: string; ratio: number } => {
+  const seen = new Set([sku]);
+  let current = { sku, ratio: 1 };
+  for (let link = table.find(s => s.oldSku === sku); link && !seen.has(link.newSku); link = table.find(s => s.oldSku === current.sku)) {
+    current = { sku: link.newSku, ratio: current.ratio * link.ratio };
+    seen.add(link.newSku);
+  }
+  return current;
+};
+
+/**
+ * Moves every row an old SKU sold before its effective date onto its final
+ * successor, converted by the ratio. Sales on or after the effective date
+ * (run-out of old stock) stay with the old SKU.
+ */
+export const chainSupersessions = (data: DataPoint[], table: Supersession[], asOf: string): { data: DataPoint[]; links: ChainLink[] } => {
+  const active = activeSupersessions(table, asOf);
+  if (active.length === 0) return { data, links: [] };
+  const categories = new Map<string, string>();
+  data.forEach(d => { if (!categories.has(d.sku)) categories.set(d.sku, d.category); });
+
+  const links = new Map<string, ChainLink>();
+  const chained = data.map(d => {
+    const own = active.find(s => s.oldSku === d.sku);
+    if (!own || d.date >= own.effectiveDate) return d;
+    const successor = resolveSuccessor(d.sku, active);
+    if (successor.sku === d.sku) return d;
+    const quantity = Math.round(d.quantity * successor.ratio);
+    const link = links.get(d.sku) ?? { oldSku: d.sku, newSku: successor.sku, rows: 0, volume: 0 };
+    link.rows++;
+    link.volume += quantity;
+    links.set(d.sku, link);
+    return { ...d, sku: successor.sku, category: categories.get(successor.sku) ?? d.category, quantity };
+  });
+  return { data: chained, links: Array.from(links.values()) };
+};
+
+/**
+ * End-of-life date per SKU: the planner's phase-out date, or the effective
+ * date of a supersession replacing it, whichever comes first.
+ */
+export const endOfLifeDates = (attributes: ProductAttribute[], table: Supersession[]): Map<string, string> => {
+  const result = new Map<string, string>();
+  const offer = (sku: string, date?: string) => {
+    if (!date) return;
+    const existing = result.get(sku);
+    if (!existing || date < existing) result.set(sku, date);
+  };
+  attributes.forEach(a => offer(a.sku, a.endOfLifeDate));
+  table.forEach(s => offer(s.oldSku, s.effectiveDate));
+  return result;
+};
+
+/**
+ * Scales forecast points linearly from full demand at the forecast origin
+ * down to zero on the end-of-life date, and zero afterwards.
+ */
+export const applyEndOfLife = (points: ForecastPoint[], endOfLife: string): ForecastPoint[] => {
+  const history = points.filter(p => !p.isForecast);
+  const origin = toTime(history[history.length - 1]?.date ?? points[0]?.date ?? endOfLife);
+  const end = toTime(endOfLife);
+  const span = Math.max(dayMs, end - origin);
+  return points.map(p => (p.isForecast ? scalePoint(p, 'lifecycle', Math.min(1, Math.max(0, (end - toTime(p.date)) / span))) : p));
+};
+
+/**
+ * Demand an end-of-life ramp took off each forecast date, converted to
+ * successor units by the supersession ratio.
+ */
+export const rampedVolume = (before: ForecastPoint[], after: ForecastPoint[], ratio: number): Map<string, number> =>
+  new Map(after.flatMap((p, i) => (p.isForecast && before[i].forecast > p.forecast ? [[p.date, Math.round((before[i].forecast - p.forecast) * ratio)] as const] : [])));
+
+/**
+ * Adds demand handed over by a superseded SKU to its successor's forecast
+ * points; bounds and quantiles move with the forecast.
+ */
+export const receiveVolume = (points: ForecastPoint[], volume: Map<string, number>): ForecastPoint[] =>
+  points.map(p => {
+    const added = p.isForecast ? volume.get(p.date) ?? 0 : 0;
+    return added === 0 ? p : shiftPoint(p, 'lifecycle', added);
+  });
+
+/**
+ * Stock still on hand when demand stops. SKUs with a forecast use their
+ * projected inventory at the last period before end of life; SKUs whose
+ * history was fully chained away have no demand left, so all stock is at risk.
+ */
+export const obsolescenceRisk = (
+  endOfLife: Map<string, string>,
+  forecasts: Map<string, ForecastPoint[]>,
+  inventory: InventoryLevel[],
+  attributes: ProductAttribute[],
+  table: Supersession[]
+): ObsolescenceRisk[] =>
+  Array.from(endOfLife.entries()).map(([sku, date]) => {
+    const onHand = inventory.find(i => i.sku === sku)?.onHand ?? 0;
+    const unitCost = attributes.find(a => a.sku === sku)?.unitCost ?? 0;
+    const future = (forecasts.get(sku) ?? []).filter(p => p.isForecast);
+    const beforeEnd = future.filter(p => p.date < date);
+    const withinHorizon = future.length === 0 || future[future.length - 1].date >= date;
+    const remaining = future.length === 0 ? onHand : beforeEnd.length > 0 ? beforeEnd[beforeEnd.length - 1].projectedInventory ?? onHand : onHand;
+    const unitsAtRisk = withinHorizon ? Math.max(0, Math.round(remaining)) : 0;
+    return {
+      sku,
+      successor: table.find(s => s.oldSku === sku)?.newSku,
+      endOfLife: date,
+      onHand,
+      unitsAtRisk,
+      valueAtRisk: Math.round(unitsAtRisk * unitCost),
+      withinHorizon
+    };
+  }).sort((a, b) => b.valueAtRisk - a.valueAtRisk);
@@ -0,0 +1,43 @@
+/**
+ * Small dense linear-algebra helpers for the handful of matrices the engine
+ * needs (reconciliation, regression). Matrices are row-major `number[][]`.
+ */
+
+export type Matrix = number[][];
+
+export const transpose = (a: Matrix): Matrix =>
+  a.length === 0 ? [] : a[0].map((_, j) => a.map(row => row[j]));
+
+export const matMul = (a: Matrix, b: Matrix): Matrix =>
+  a.map(row => b[0].map((_, j) => row.reduce((s, v, k) => s + v * b[k][j], 0)));
+
+export const matVec = (a: Matrix, x: number[]): number[] =>
+  a.map(row => row.reduce((s, v, k) => s + v * x[k], 0));
+
+export const identity = (n: number): Matrix =>
+  Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+/**
+ * Solves A·X = B by Gauss-Jordan elimination with partial pivoting. A tiny
+ * ridge is added to near-zero pivots so rank-deficient systems still return.
+ */
+export const solve = (a: Matrix, b: Matrix): Matrix => {
+  const n = a.length;
+  const aug = a.map((row, i) => [...row, ...b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(aug[r][col]) > Math.abs(aug[pivot][col])) pivot = r;
+    [aug[col], aug[pivot]] = [aug[pivot], aug[col]];
+    if (Math.abs(aug[col][col]) < 1e-12) aug[col][col] = 1e-12;
+    const p = aug[col][col];
+    for (let j = col; j < aug[col].length; j++) aug[col][j] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col || aug[r][col] === 0) continue;
+      const f = aug[r][col];
+      for (let j = col; j < aug[r].length; j++) aug[r][j] -= f * aug[col][j];
+    }
+  }
+  return aug.map(row => row.slice(n));
+};
+
+export const invert = (a: Matrix): Matrix => solve(a, identity(a.length));
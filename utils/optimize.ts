@@ -0,0 +1,101 @@
+/**
+ * Derivative-free minimisation helpers shared by the model fitters.
+ */
+
+export interface NelderMeadOptions {
+  maxIterations?: number;
+  tolerance?: number;
+  initialStep?: number;
+}
+
+export interface OptimizationResult {
+  x: number[];
+  value: number;
+  iterations: number;
+}
+
+/**
+ * Nelder-Mead simplex search. Works on unconstrained parameters, so callers
+ * map bounded parameters (smoothing weights, AR coefficients) through a
+ * transform before evaluating the objective.
+ */
+export const nelderMead = (
+  objective: (x: number[]) => number,
+  start: number[],
+  { maxIterations = 400, tolerance = 1e-8, initialStep = 0.5 }: NelderMeadOptions = {}
+): OptimizationResult => {
+  const dim = start.length;
+  if (dim === 0) return { x: [], value: objective([]), iterations: 0 };
+
+  const safeEval = (x: number[]) => {
+    const v = objective(x);
+    return Number.isFinite(v) ? v : Number.MAX_VALUE;
+  };
+
+  let simplex = [start.slice()];
+  for (let i = 0; i < dim; i++) {
+    const vertex = start.slice();
+    vertex[i] += initialStep;
+    simplex.push(vertex);
+  }
+  let values = simplex.map(safeEval);
+
+  let iterations = 0;
+  for (; iterations < maxIterations; iterations++) {
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+    simplex = order.map(i => simplex[i]);
+    values = order.map(i => values[i]);
+
+    if (Math.abs(values[dim] - values[0]) <= tolerance * (Math.abs(values[0]) + tolerance)) break;
+
+    const centroid = new Array(dim).fill(0);
+    for (let i = 0; i < dim; i++) {
+      for (let j = 0; j < dim; j++) centroid[j] += simplex[i][j] / dim;
+    }
+    const along = (t: number) => centroid.map((c, j) => c + t * (simplex[dim][j] - c));
+
+    const reflected = along(-1);
+    const fr = safeEval(reflected);
+    if (fr < values[0]) {
+      const expanded = along(-2);
+      const fe = safeEval(expanded);
+      if (fe < fr) { simplex[dim] = expanded; values[dim] = fe; }
+      else { simplex[dim] = reflected; values[dim] = fr; }
+      continue;
+    }
+    if (fr < values[dim - 1]) {
+      simplex[dim] = reflected; values[dim] = fr;
+      continue;
+    }
+
+    const contracted = fr < values[dim] ? along(-0.5) : along(0.5);
+    const fc = safeEval(contracted);
+    if (fc < Math.min(fr, values[dim])) {
+      simplex[dim] = contracted; values[dim] = fc;
+      continue;
+    }
+
+    // Shrink every vertex towards the current best point
+    for (let i = 1; i <= dim; i++) {
+      simplex[i] = simplex[i].map((v, j) => simplex[0][j] + 0.5 * (v - simplex[0][j]));
+      values[i] = safeEval(simplex[i]);
+    }
+  }
+
+  const best = values.reduce((bi, v, i) => (v < values[bi] ? i : bi), 0);
+  return { x: simplex[best], value: values[best], iterations };
+};
+
+/**
+ * Maps an unconstrained real onto the open interval (lower, upper).
+ */
+export const toBounded = (x: number, lower: number, upper: number) =>
+  lower + (upper - lower) / (1 + Math.exp(-x));
+
+/**
+ * Inverse of `toBounded`, used to seed the optimiser from a natural starting value.
+ */
+export const fromBounded = (v: number, lower: number, upper: number) => {
+  const p = Math.min(Math.max((v - lower) / (upper - lower), 1e-6), 1 - 1e-6);
+  return Math.log(p / (1 - p));
+};
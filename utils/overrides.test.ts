@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ForecastPoint, OverrideLayer } from '../types';
+import { calculateSupplyChainMetrics } from './supplyChain';
+import { saveOverride, setOverrideStatus, removeOverride, applyOverrides, loadOverrideLog, saveOverrideLog, overrideId, OverrideLog } from './overrides';
+
+const AT = '2024-05-01T09:00:00.000Z';
+const EMPTY: OverrideLog = { overrides: [], audit: [] };
+
+const POINTS: ForecastPoint[] = [
+  { date: '2024-05-01', sku: 'A1', historical: 90, forecast: 90, isForecast: false },
+  { date: '2024-06-01', sku: 'A1', forecast: 100, lowerBound: 80, upperBound: 120, isForecast: true },
+  { date: '2024-07-01', sku: 'A1', forecast: 200, lowerBound: 150, upperBound: 250, isForecast: true }
+];
+
+const draft = (layer: OverrideLayer, date: string, value: number, mode: 'percent' | 'absolute' = 'absolute') =>
+  ({ sku: 'A1', date, layer, mode, value, reason: 'promotion' as const, author: 'Dana' });
+
+// Saves, submits and approves each override in turn
+const approve = (...inputs: ReturnType<typeof draft>[]) =>
+  inputs.reduce((log, input) => {
+    const id = overrideId(input.layer, input.sku, input.date);
+    return setOverrideStatus(setOverrideStatus(saveOverride(log, input, AT), id, 'submitted', 'Dana', AT), id, 'approved', 'Lee', AT);
+  }, EMPTY);
+
+describe('override workflow', () => {
+  it('moves an override from draft through submitted to approved and audits each step', () => {
+    const log = approve(draft('sales', '2024-06-01', 10, 'percent'));
+    expect(log.overrides.map(o => o.status)).toEqual(['approved']);
+    expect(log.audit.map(e => `${e.action} · ${e.author} · ${e.detail}`)).toEqual([
+      'saved · Dana · +10% · draft',
+      'submitted · Dana · +10% · submitted',
+      'approved · Lee · +10% · approved'
+    ]);
+  });
+
+  it('ignores transitions the workflow does not allow', () => {
+    const log = saveOverride(EMPTY, draft('final', '2024-06-01', 120), AT);
+    expect(setOverrideStatus(log, 'final|A1|2024-06-01', 'approved', 'Lee', AT)).toBe(log);
+  });
+
+  it('sends an edited override back to draft and audits deletions', () => {
+    const approved = approve(draft('final', '2024-06-01', 120));
+    const edited = saveOverride(approved, draft('final', '2024-06-01', 130), AT);
+    expect(edited.overrides).toHaveLength(1);
+    expect(edited.overrides[0].status).toBe('draft');
+    const removed = removeOverride(edited, 'final|A1|2024-06-01', 'Lee', AT);
+    expect(removed.overrides).toEqual([]);
+    expect(removed.audit[removed.audit.length - 1].action).toBe('deleted');
+  });
+});
+
+describe('applyOverrides', () => {
+  it('leaves history and unapproved overrides alone', () => {
+    const log = saveOverride(EMPTY, draft('final', '2024-06-01', 500), AT);
+    const points = applyOverrides(POINTS, log.overrides);
+    expect(points.map(p => p.forecast)).toEqual([90, 100, 200]);
+    expect(points[1].layers).toEqual({ statistical: 100, sales: 100, marketing: 100, final: 100 });
+  });
+
+  it('plans on the latest approved layer', () => {
+    const log = approve(draft('sales', '2024-06-01', 10, 'percent'), draft('sales', '2024-07-01', 220), draft('marketing', '2024-07-01', 240));
+    const points = applyOverrides(POINTS, log.overrides);
+    expect(points[1].layers).toEqual({ statistical: 100, sales: 110, marketing: 110, final: 110 });
+    expect(points[2].layers).toEqual({ statistical: 200, sales: 220, marketing: 240, final: 240 });
+    expect(points.map(p => p.forecast)).toEqual([90, 110, 240]);
+  });
+
+  it('lets an approved final override win over the other layers', () => {
+    const log = approve(draft('marketing', '2024-06-01', 150), draft('final', '2024-06-01', 130));
+    const [, june] = applyOverrides(POINTS, log.overrides);
+    expect(june.forecast).toBe(130);
+    expect(june.lowerBound).toBe(110);
+    expect(june.upperBound).toBe(150);
+  });
+
+  it('matches overrides on the period when the dates are offset by the lead time', () => {
+    const log = approve(draft('final', '2024-06-01', 130));
+    const shifted = calculateSupplyChainMetrics(POINTS, 10, 14, 0.95, 0, [], true);
+    expect(shifted[1].date).toBe('2024-05-18');
+    expect(shifted[1].period).toBe('2024-06-01');
+    expect(applyOverrides(shifted, log.overrides)[1].forecast).toBe(130);
+  });
+});
+
+describe('override storage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('round-trips the overrides and audit trail through browser storage', () => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', { getItem: (k: string) => store.get(k) ?? null, setItem: (k: string, v: string) => store.set(k, v) });
+    const log = approve(draft('final', '2024-06-01', 130));
+    saveOverrideLog(log);
+    expect(loadOverrideLog()).toEqual(log);
+  });
+
+  it('starts empty when storage is unavailable', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('localStorage', undefined);
+    expect(loadOverrideLog()).toEqual(EMPTY);
+  });
+});
@@ -0,0 +1,141 @@
+import { ForecastLayer, ForecastOverride, ForecastPoint, OverrideAuditEntry, OverrideLayer, OverrideReason, OverrideStatus } from '../types';
+import { shiftPoint } from './decomposition';
+
+/**
+ * Manual overrides and the consensus workflow. Sales, marketing and the final
+ * consensus each adjust the statistical forecast in their own layer; an
+ * override moves from draft to submitted to approved, and only approved
+ * overrides change a layer. A layer without one carries the layer before it,
+ * so the planned quantity (the final layer) is the latest approved layer.
+ */
+
+export const OVERRIDE_LAYERS: OverrideLayer[] = ['sales', 'marketing', 'final'];
+export const FORECAST_LAYERS: ForecastLayer[] = ['statistical', ...OVERRIDE_LAYERS];
+
+export const LAYER_LABELS: Record<ForecastLayer, string> = {
+  statistical: 'Statistical',
+  sales: 'Sales',
+  marketing: 'Marketing',
+  final: 'Final Consensus'
+};
+
+export const OVERRIDE_REASONS: Record<OverrideReason, string> = {
+  promotion: 'Promotion',
+  'customer-order': 'Customer Order',
+  'market-intelligence': 'Market Intelligence',
+  'supply-constraint': 'Supply Constraint',
+  'new-listing': 'New Listing',
+  other: 'Other'
+};
+
+export interface OverrideLog {
+  overrides: ForecastOverride[];
+  audit: OverrideAuditEntry[];
+}
+
+const STORAGE_KEY = 'forecast-overrides';
+
+export const loadOverrideLog = (): OverrideLog => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : { overrides: [], audit: [] };
+  } catch (e) {
+    console.error(e);
+    return { overrides: [], audit: [] };
+  }
+};
+
+export const saveOverrideLog = (log: OverrideLog) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.error(e);
+  }
+};
+
+export const overrideId = (layer: OverrideLayer, sku: string, date: string) => `${layer}|${sku}|${date}`;
+
+/** Quantity an override gives a layer, from the statistical quantity of the same period. */
+export const overrideValue = (override: Pick<ForecastOverride, 'mode' | 'value'>, statistical: number) =>
+  Math.max(0, Math.round(override.mode === 'percent' ? statistical * (1 + override.value / 100) : override.value));
+
+export const describeOverride = (override: Pick<ForecastOverride, 'mode' | 'value'>) =>
+  override.mode === 'percent' ? `${override.value >= 0 ? '+' : ''}${override.value}%` : `${override.value} units`;
+
+const entry = (override: ForecastOverride, action: OverrideAuditEntry['action'], author: string, at: string): OverrideAuditEntry => ({
+  overrideId: override.id,
+  action,
+  author,
+  at,
+  detail: `${describeOverride(override)} · ${override.status}`
+});
+
+/** Creates or replaces the override for its SKU, period and layer as a draft. */
+export const saveOverride = (
+  log: OverrideLog,
+  input: Omit<ForecastOverride, 'id' | 'updatedAt' | 'status'>,
+  at: string = new Date().toISOString()
+): OverrideLog => {
+  const override: ForecastOverride = { ...input, id: overrideId(input.layer, input.sku, input.date), updatedAt: at, status: 'draft' };
+  return {
+    overrides: [...log.overrides.filter(o => o.id !== override.id), override],
+    audit: [...log.audit, entry(override, 'saved', input.author, at)]
+  };
+};
+
+const TRANSITIONS: Record<OverrideStatus, Partial<Record<OverrideStatus, OverrideAuditEntry['action']>>> = {
+  draft: { submitted: 'submitted' },
+  submitted: { approved: 'approved', draft: 'returned' },
+  approved: { draft: 'returned' }
+};
+
+/** Moves an override through the workflow; transitions the workflow does not allow are ignored. */
+export const setOverrideStatus = (
+  log: OverrideLog,
+  id: string,
+  status: OverrideStatus,
+  author: string,
+  at: string = new Date().toISOString()
+): OverrideLog => {
+  const current = log.overrides.find(o => o.id === id);
+  const action = current && TRANSITIONS[current.status][status];
+  if (!current || !action) return log;
+  const updated = { ...current, status, updatedAt: at };
+  return {
+    overrides: log.overrides.map(o => (o.id === id ? updated : o)),
+    audit: [...log.audit, entry(updated, action, author, at)]
+  };
+};
+
+export const removeOverride = (log: OverrideLog, id: string, author: string, at: string = new Date().toISOString()): OverrideLog => {
+  const current = log.overrides.find(o => o.id === id);
+  if (!current) return log;
+  return {
+    overrides: log.overrides.filter(o => o.id !== id),
+    audit: [...log.audit, entry(current, 'deleted', author, at)]
+  };
+};
+
+/**
+ * Layers of one SKU's points from its approved overrides, in workflow order:
+ * sales, then marketing, then final, each falling back to the layer before.
+ * Points are matched on their period, so a lead-time offset doesn't hide
+ * them. The planned forecast becomes the final layer; the change is booked as
+ * an override in the decomposition, and the bounds and quantiles move with it.
+ */
+export const applyOverrides = (points: ForecastPoint[], overrides: ForecastOverride[]): ForecastPoint[] => {
+  const approved = new Map(overrides.filter(o => o.status === 'approved').map(o => [o.id, o]));
+  return points.map(p => {
+    if (!p.isForecast) return p;
+    const statistical = p.forecast;
+    const layer = (name: OverrideLayer, previous: number) => {
+      const override = approved.get(overrideId(name, p.sku ?? '', p.period ?? p.date));
+      return override ? overrideValue(override, statistical) : previous;
+    };
+    const sales = layer('sales', statistical);
+    const marketing = layer('marketing', sales);
+    const layers: Record<ForecastLayer, number> = { statistical, sales, marketing, final: layer('final', marketing) };
+    const delta = layers.final - statistical;
+    return delta === 0 ? { ...p, layers } : { ...shiftPoint(p, 'overrides', delta), layers };
+  });
+};
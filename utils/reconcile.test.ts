@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { DataPoint, ForecastMethodology, TimeInterval } from '../types';
+import { ForecastRun } from './forecasting';
+import { matVec, invert } from './linalg';
+import { buildHierarchy, reconcileForecasts, hierarchyBacktestTasks, nodeMethod, Hierarchy } from './reconcile';
+
+const monthly = (sku: string, category: string, base: number, length = 24): DataPoint[] =>
+  Array.from({ length }, (_, t) => ({
+    date: `${2022 + Math.floor(t / 12)}-${String((t % 12) + 1).padStart(2, '0')}-01`,
+    sku,
+    category,
+    quantity: base + t + (t % 3)
+  }));
+
+const DATA = [...monthly('A1', 'Audio', 100), ...monthly('A2', 'Audio', 40), ...monthly('V1', 'Video', 70)];
+
+// Base forecasts as given, two periods ahead, with in-sample fits one unit off
+const runsFor = (hierarchy: Hierarchy, forecasts: Record<string, number[]>) =>
+  new Map<string, ForecastRun>(hierarchy.nodes.map(n => {
+    const forecast = forecasts[n.id];
+    const points = [
+      ...n.series.map(d => ({ date: d.date, historical: d.quantity, forecast: d.quantity, isForecast: false })),
+      ...forecast.map((f, i) => ({ date: `2024-0${i + 1}-01`, forecast: f, lowerBound: f - 10, upperBound: f + 10, isForecast: true }))
+    ];
+    return [n.id, { points, fit: { forecast, fitted: n.series.map(d => d.quantity + 1) } }];
+  }));
+
+const BASE = {
+  'total:Total': [260, 270],
+  'category:Audio': [170, 175],
+  'category:Video': [95, 96],
+  'sku:A1': [120, 122],
+  'sku:A2': [45, 46],
+  'sku:V1': [90, 91]
+};
+
+describe('buildHierarchy', () => {
+  const hierarchy = buildHierarchy(DATA, TimeInterval.MONTHLY);
+
+  it('orders the nodes total, categories, SKUs', () => {
+    expect(hierarchy.nodes.map(n => n.id)).toEqual(['total:Total', 'category:Audio', 'category:Video', 'sku:A1', 'sku:A2', 'sku:V1']);
+  });
+
+  it('sums each parent series from its SKUs', () => {
+    const [total, audio] = hierarchy.nodes;
+    expect(total.series[5].quantity).toBe(DATA.filter(d => d.date === total.series[5].date).reduce((s, d) => s + d.quantity, 0));
+    expect(audio.series[0].quantity).toBe(100 + 40);
+  });
+
+  it('maps every node to the SKUs below it', () => {
+    expect(hierarchy.summing).toEqual([[0, 1, 2], [0, 1], [2], [0], [1], [2]]);
+  });
+});
+
+describe('reconcileForecasts', () => {
+  const hierarchy = buildHierarchy(DATA, TimeInterval.MONTHLY);
+  const runs = runsFor(hierarchy, BASE);
+  const forecastsOf = (reconciled: Map<string, { forecast: number; isForecast: boolean }[]>, id: string) =>
+    reconciled.get(id)!.filter(p => p.isForecast).map(p => p.forecast);
+
+  it('keeps the SKU forecasts bottom-up and sums them upwards', () => {
+    const reconciled = reconcileForecasts(hierarchy, runs, 'bottom-up');
+    expect(forecastsOf(reconciled, 'sku:A1')).toEqual([120, 122]);
+    expect(forecastsOf(reconciled, 'category:Audio')).toEqual([165, 168]);
+    expect(forecastsOf(reconciled, 'total:Total')).toEqual([255, 259]);
+  });
+
+  it.each(['top-down', 'ols', 'mint'] as const)('ties every level out under %s', method => {
+    const reconciled = reconcileForecasts(hierarchy, runs, method);
+    const sum = (ids: string[], h: number) => ids.reduce((s, id) => s + forecastsOf(reconciled, id)[h], 0);
+    [0, 1].forEach(h => {
+      expect(forecastsOf(reconciled, 'total:Total')[h]).toBe(sum(['sku:A1', 'sku:A2', 'sku:V1'], h));
+      expect(forecastsOf(reconciled, 'category:Audio')[h]).toBe(sum(['sku:A1', 'sku:A2'], h));
+    });
+  });
+
+  it('gives the least-squares SKU forecasts under ols', () => {
+    // (SᵀS)⁻¹Sᵀŷ solved densely for the six nodes
+    const S = hierarchy.summing.map(skus => [0, 1, 2].map(j => (skus.includes(j) ? 1 : 0)));
+    const StS = [0, 1, 2].map(i => [0, 1, 2].map(j => S.reduce((s, row) => s + row[i] * row[j], 0)));
+    const base = hierarchy.nodes.map(n => BASE[n.id as keyof typeof BASE][0]);
+    const expected = matVec(invert(StS), [0, 1, 2].map(i => S.reduce((s, row, k) => s + row[i] * base[k], 0))).map(Math.round);
+    const reconciled = reconcileForecasts(hierarchy, runs, 'ols');
+    expect(['sku:A1', 'sku:A2', 'sku:V1'].map(id => forecastsOf(reconciled, id)[0])).toEqual(expected);
+  });
+
+  it('reconciles a full catalog without forming the SKU × SKU system', () => {
+    // 8,000 SKUs in 40 categories, as in a production catalog
+    const catalog = Array.from({ length: 8000 }, (_, k) => monthly(`S${k}`, `C${k % 40}`, 10 + (k % 50))).flat();
+    const large = buildHierarchy(catalog, TimeInterval.MONTHLY);
+    const forecasts = Object.fromEntries(large.nodes.map((n, i) => [n.id, [n.series[23].quantity + (i % 7) - 3, n.series[23].quantity]]));
+    const reconciled = reconcileForecasts(large, runsFor(large, forecasts), 'mint');
+    const skuTotal = large.nodes.filter(n => n.level === 'sku').reduce((s, n) => s + forecastsOf(reconciled, n.id)[0], 0);
+    expect(forecastsOf(reconciled, 'total:Total')[0]).toBe(skuTotal);
+    expect(large.summing[1]).toHaveLength(200);
+  });
+
+  it('moves the bounds with the reconciled forecast', () => {
+    const reconciled = reconcileForecasts(hierarchy, runs, 'bottom-up');
+    const total = reconciled.get('total:Total')!.filter(p => p.isForecast)[0];
+    expect(total.lowerBound).toBe(total.forecast - 10);
+    expect(total.upperBound).toBe(total.forecast + 10);
+  });
+});
+
+describe('hierarchyBacktestTasks', () => {
+  const hierarchy = buildHierarchy(DATA, TimeInterval.MONTHLY);
+  const config = { origins: 3, horizon: 3, interval: TimeInterval.MONTHLY };
+
+  it('trains every origin on a window of the first origin\'s length when sliding', () => {
+    const tasks = hierarchyBacktestTasks(hierarchy, ForecastMethodology.LINEAR, { ...config, window: 'sliding' });
+    expect(new Set(tasks.map(t => t.series.length))).toEqual(new Set([19]));
+    expect(tasks.find(t => t.key === '21|sku:A1')!.series[0].date).toBe('2022-03-01');
+  });
+
+  it('grows the training set from the start of the series when expanding', () => {
+    const tasks = hierarchyBacktestTasks(hierarchy, ForecastMethodology.LINEAR, { ...config, window: 'expanding' });
+    expect(tasks.filter(t => t.key.endsWith('|total:Total')).map(t => t.series.length)).toEqual([19, 20, 21]);
+  });
+});
+
+describe('nodeMethod', () => {
+  const hierarchy = buildHierarchy(DATA, TimeInterval.MONTHLY);
+  const [total, , , a1] = hierarchy.nodes;
+  const inputs = {
+    methods: new Map([['A1', ForecastMethodology.TSB]]),
+    selections: new Map([['sku:A1', ForecastMethodology.ARIMA], ['total:Total', ForecastMethodology.ARIMA]])
+  };
+
+  it('prefers the SKU methodology, then the node\'s Auto winner, then the shared one', () => {
+    expect(nodeMethod(a1, ForecastMethodology.LINEAR, inputs)).toBe(ForecastMethodology.TSB);
+    expect(nodeMethod(total, ForecastMethodology.LINEAR, inputs)).toBe(ForecastMethodology.ARIMA);
+    expect(nodeMethod(hierarchy.nodes[4], ForecastMethodology.LINEAR, inputs)).toBe(ForecastMethodology.LINEAR);
+  });
+});
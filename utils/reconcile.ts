@@ -0,0 +1,358 @@
+import { DataPoint, ForecastPoint, ForecastMethodology, ForecastOptions, ReconciliationMethod, TimeInterval, DriverSeries, AnalogSpec, ProductAttribute } from '../types';
+import { calculateMetrics, ForecastRun } from './forecasting';
+import { splitBySku } from './calendar';
+import { shiftPoint } from './decomposition';
+import { sliceDrivers } from './drivers';
+import { analogsAsOf } from './analogs';
+import { getOriginWindows, BacktestConfig } from './backtest';
+import { ForecastTask, runForecastTask } from './workerProtocol';
+
+/**
+ * Forecast reconciliation over the Total → Category → SKU hierarchy. Every
+ * node is forecast on its own series; the base forecasts are then mapped to
+ * SKU level (G) and summed back up (S), so all levels add up: ỹ = S·G·ŷ.
+ * S is kept sparse, as each node's SKU indices, and G is never formed: it is
+ * applied as a function of ŷ, so every method stays linear in size.
+ */
+
+export type HierarchyLevel = 'total' | 'category' | 'sku';
+
+export const HIERARCHY_LEVELS: HierarchyLevel[] = ['total', 'category', 'sku'];
+
+export interface HierarchyNode {
+  /** Unique id, `${level}:${name}`. */
+  id: string;
+  name: string;
+  level: HierarchyLevel;
+  category: string;
+  series: DataPoint[];
+}
+
+export interface Hierarchy {
+  /** Total first, then categories, then SKUs (the bottom level). */
+  nodes: HierarchyNode[];
+  /** Sparse summing matrix: per node, the indices of the SKUs it sums, in SKU order. */
+  summing: number[][];
+}
+
+/** Per-node inputs that vary across the hierarchy. */
+export interface NodeInputs {
+  /** Driver history and future per node id. */
+  drivers?: Map<string, DriverSeries>;
+  /** Analog launch curves per SKU name. */
+  analogs?: Map<string, AnalogSpec>;
+  /** Methodology per SKU name, replacing the shared one for that SKU. */
+  methods?: Map<string, ForecastMethodology>;
+  /** Auto's backtest winner per node id; a SKU methodology above still wins. */
+  selections?: Map<string, ForecastMethodology>;
+}
+
+export interface LevelAccuracy {
+  level: HierarchyLevel;
+  nodes: number;
+  baseWape: number;
+  reconciledWape: number;
+  accuracy: number;
+}
+
+/** Base forecasts and actuals of one node at every backtest origin, oldest first. */
+export interface OriginErrors {
+  actual: number[][];
+  forecast: number[][];
+}
+
+export interface HierarchyBacktest {
+  levels: LevelAccuracy[];
+  /** Per node id, for estimating per-series bias. */
+  errors: Map<string, OriginErrors>;
+}
+
+const sumSeries = (series: DataPoint[][], name: string, category: string): DataPoint[] =>
+  (series[0] || []).map((d, t) => ({ date: d.date, quantity: series.reduce((s, x) => s + x[t].quantity, 0), sku: name, category }));
+
+/**
+ * Nodes for every SKU with sales in `data`, plus the `launches` (items
+ * forecast from analogs) that have not sold yet, as zero series on the same
+ * calendar so their launch forecast has a place in the hierarchy.
+ */
+export const buildHierarchy = (data: DataPoint[], interval: TimeInterval, launches: ProductAttribute[] = []): Hierarchy => {
+  const skuSeries = splitBySku(data, interval);
+  const calendar = (skuSeries.values().next().value ?? []).map(d => d.date);
+  launches.forEach(({ sku, category }) => {
+    if (calendar.length > 0 && !skuSeries.has(sku)) skuSeries.set(sku, calendar.map(date => ({ date, quantity: 0, sku, category })));
+  });
+  const skus = Array.from(skuSeries.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([sku, series]) => ({ sku, category: series[0]?.category ?? '', series }));
+  const categories = Array.from(new Set(skus.map(s => s.category))).sort();
+
+  const nodes: HierarchyNode[] = [
+    { id: 'total:Total', name: 'Total', level: 'total', category: 'ALL', series: sumSeries(skus.map(s => s.series), 'ALL', 'ALL') },
+    ...categories.map(category => ({
+      id: `category:${category}`, name: category, level: 'category' as const, category,
+      series: sumSeries(skus.filter(s => s.category === category).map(s => s.series), 'ALL', category)
+    })),
+    ...skus.map(({ sku, category, series }) => ({ id: `sku:${sku}`, name: sku, level: 'sku' as const, category, series }))
+  ];
+  const byCategory = new Map<string, number[]>(categories.map(c => [c, []]));
+  skus.forEach((s, j) => byCategory.get(s.category)!.push(j));
+  const summing = [skus.map((_, j) => j), ...categories.map(c => byCategory.get(c)!), ...skus.map((_, j) => [j])];
+  return { nodes, summing };
+};
+
+// The hierarchy as seen over one origin's training window
+const truncate = (hierarchy: Hierarchy, start: number, end: number): Hierarchy => ({
+  ...hierarchy,
+  nodes: hierarchy.nodes.map(n => ({ ...n, series: n.series.slice(start, end) }))
+});
+
+/** SKUs summed into a node. */
+export const nodeSkus = (hierarchy: Hierarchy, node: HierarchyNode): string[] => {
+  if (node.level === 'sku') return [node.name];
+  return hierarchy.nodes.filter(n => n.level === 'sku' && (node.level === 'total' || n.category === node.category)).map(n => n.name);
+};
+
+/** Methodology a node is forecast with: its SKU methodology, then its own Auto winner, then the shared one. */
+export const nodeMethod = (node: HierarchyNode, method: ForecastMethodology, inputs: NodeInputs = {}) =>
+  (node.level === 'sku' && inputs.methods?.get(node.name)) || inputs.selections?.get(node.id) || method;
+
+/** One forecast task per node, keyed by node id, for the forecast pool or an inline run. */
+export const hierarchyForecastTasks = (
+  hierarchy: Hierarchy,
+  horizon: number,
+  interval: TimeInterval,
+  confidenceLevel: number,
+  method: ForecastMethodology,
+  options: ForecastOptions = {},
+  inputs: NodeInputs = {},
+  slim = false
+): ForecastTask[] =>
+  hierarchy.nodes.map(n => {
+    // Analogs describe a single item, so only SKU nodes use them
+    const sku = n.level === 'sku' ? n.name : undefined;
+    return {
+      kind: 'forecast',
+      key: n.id,
+      series: n.series,
+      horizon,
+      interval,
+      confidenceLevel,
+      method: nodeMethod(n, method, inputs),
+      options: { ...options, drivers: inputs.drivers?.get(n.id), analog: sku ? inputs.analogs?.get(sku) : undefined },
+      slim
+    };
+  });
+
+export const forecastHierarchy = (
+  hierarchy: Hierarchy,
+  horizon: number,
+  interval: TimeInterval,
+  confidenceLevel: number,
+  method: ForecastMethodology,
+  options: ForecastOptions = {},
+  inputs: NodeInputs = {}
+): Map<string, ForecastRun> =>
+  new Map(hierarchyForecastTasks(hierarchy, horizon, interval, confidenceLevel, method, options, inputs).map(t => [t.key, runForecastTask(t)]));
+
+/**
+ * MinT's diagonal W (the WLS variance scaling): each node's mean squared
+ * one-step in-sample residual. A node with fewer than three fitted periods
+ * takes the average of its level; without a fitted total there is nothing to
+ * weight by and the caller falls back to OLS.
+ */
+const residualVariances = (hierarchy: Hierarchy, runs: Map<string, ForecastRun>): number[] | null => {
+  const variances = hierarchy.nodes.map(n => {
+    const fitted = runs.get(n.id)?.fit?.fitted ?? [];
+    const errors = n.series.flatMap((d, t) => {
+      const f = fitted[t];
+      return f === null || f === undefined || !Number.isFinite(f) ? [] : [(d.quantity - f) ** 2];
+    });
+    return errors.length > 2 ? Math.max(errors.reduce((a, b) => a + b, 0) / errors.length, 1e-6) : null;
+  });
+  if (variances[0] === null) return null;
+  const levelMean = new Map(HIERARCHY_LEVELS.map(level => {
+    const known = variances.filter((v, i): v is number => v !== null && hierarchy.nodes[i].level === level);
+    return [level, known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : variances[0]!];
+  }));
+  return variances.map((v, i) => v ?? levelMean.get(hierarchy.nodes[i].level)!);
+};
+
+/**
+ * Solves (SᵀW⁻¹S)x = r for diagonal W without forming the SKU × SKU matrix.
+ * On the three-level tree SᵀW⁻¹S is the SKUs' diagonal plus one rank-one
+ * block per category plus one rank-one term for the total, so Sherman-Morrison
+ * applied per category and then once for the total solves it in O(SKUs).
+ */
+const nestedSolver = (hierarchy: Hierarchy, weights: number[]) => {
+  const { nodes, summing } = hierarchy;
+  const bottomOffset = nodes.length - summing[0].length;
+  // B⁻¹1 inside each category block, then B⁻¹1 of the whole (block-diagonal) system
+  const skuPrecision = summing[0].map(j => 1 / weights[bottomOffset + j]);
+  const blocks = nodes.flatMap((n, k) => (n.level === 'category' ? [{ skus: summing[k], c: 1 / weights[k] }] : []));
+  const ones = skuPrecision.map(d => 1 / d);
+  blocks.forEach(({ skus, c }) => {
+    const s = skus.reduce((sum, j) => sum + ones[j], 0);
+    skus.forEach(j => { ones[j] /= 1 + c * s; });
+  });
+  const cTotal = 1 / weights[0];
+  const onesSum = ones.reduce((a, b) => a + b, 0);
+
+  return (r: number[]) => {
+    const x = r.map((v, j) => v / skuPrecision[j]);
+    blocks.forEach(({ skus, c }) => {
+      const u = skus.map(j => 1 / skuPrecision[j]);
+      const s = u.reduce((a, b) => a + b, 0);
+      const t = skus.reduce((sum, j) => sum + x[j], 0);
+      const scale = (c * t) / (1 + c * s);
+      skus.forEach((j, i) => { x[j] -= scale * u[i]; });
+    });
+    const scale = (cTotal * x.reduce((a, b) => a + b, 0)) / (1 + cTotal * onesSum);
+    return x.map((v, j) => v - scale * ones[j]);
+  };
+};
+
+/**
+ * G as a function from the stacked base forecasts to SKU forecasts. OLS and
+ * MinT solve (SᵀW⁻¹S)⁻¹SᵀW⁻¹ŷ with a diagonal W (identity for OLS), so
+ * every method costs a few passes over the nodes.
+ */
+const bottomMapping = (hierarchy: Hierarchy, runs: Map<string, ForecastRun>, method: ReconciliationMethod): ((base: number[]) => number[]) => {
+  const S = hierarchy.summing;
+  const m = S.length;
+  const b = hierarchy.nodes.filter(n => n.level === 'sku').length;
+  const bottomOffset = m - b;
+
+  if (method === 'top-down') {
+    // Proportions of the historical averages
+    const totals = hierarchy.nodes.slice(bottomOffset).map(n => n.series.reduce((s, d) => s + d.quantity, 0));
+    const grand = totals.reduce((a, c) => a + c, 0);
+    const shares = totals.map(t => (grand > 0 ? t / grand : 1 / b));
+    return base => shares.map(p => p * base[0]);
+  }
+  if (method === 'ols' || method === 'mint') {
+    const weights = (method === 'mint' && residualVariances(hierarchy, runs)) || new Array(m).fill(1);
+    const solve = nestedSolver(hierarchy, weights);
+    // SᵀW⁻¹ŷ, summing each node's weighted forecast into its SKUs
+    return base => {
+      const r = new Array(b).fill(0);
+      S.forEach((skus, k) => skus.forEach(i => { r[i] += base[k] / weights[k]; }));
+      return solve(r);
+    };
+  }
+  // Bottom-up: keep the SKU forecasts as they are
+  return base => base.slice(bottomOffset);
+};
+
+/**
+ * Reconciled points for every node. Reconciled SKU forecasts are rounded and
+ * floored at zero before summing, so upper levels stay coherent. Bounds and quantiles
+ * move with the point forecast.
+ */
+export const reconcileForecasts = (
+  hierarchy: Hierarchy,
+  runs: Map<string, ForecastRun>,
+  method: ReconciliationMethod
+): Map<string, ForecastPoint[]> => {
+  const result = new Map<string, ForecastPoint[]>();
+  if (hierarchy.nodes.length === 0) return result;
+  const base = hierarchy.nodes.map(n => runs.get(n.id)?.fit?.forecast ?? []);
+  const horizon = Math.min(...base.map(f => f.length));
+  const toBottom = bottomMapping(hierarchy, runs, method);
+
+  const reconciled = hierarchy.nodes.map(() => new Array(horizon).fill(0));
+  for (let h = 0; h < horizon; h++) {
+    // Whole units at SKU level so every parent ties out exactly
+    const bottom = toBottom(base.map(f => f[h])).map(v => Math.max(0, Math.round(v)));
+    hierarchy.summing.forEach((skus, i) => { reconciled[i][h] = skus.reduce((s, j) => s + bottom[j], 0); });
+  }
+
+  hierarchy.nodes.forEach((n, i) => {
+    let step = 0;
+    const points = (runs.get(n.id)?.points ?? []).map(p => {
+      if (!p.isForecast) return p;
+      return shiftPoint(p, 'reconciliation', reconciled[i][step++] - p.forecast);
+    });
+    result.set(n.id, points);
+  });
+  return result;
+};
+
+/**
+ * Node forecasts at every backtest origin, keyed `${origin}|${node id}`, each
+ * trained on the origin's expanding or sliding window. Runs are slim: scoring
+ * only reads the forecast points and fitted values.
+ */
+export const hierarchyBacktestTasks = (
+  hierarchy: Hierarchy,
+  method: ForecastMethodology,
+  config: BacktestConfig & { interval: TimeInterval },
+  options: ForecastOptions = {},
+  inputs: NodeInputs = {}
+): ForecastTask[] =>
+  getOriginWindows(hierarchy.nodes[0]?.series.length ?? 0, config).flatMap(({ start, end }) => {
+    const drivers = inputs.drivers && new Map(Array.from(inputs.drivers.entries()).map(([id, d]) => [id, sliceDrivers(d, start, end, config.horizon)!]));
+    // Analog curves stop where the origin's holdout begins
+    const cutoff = hierarchy.nodes[0].series[end].date;
+    const analogs = inputs.analogs && analogsAsOf(inputs.analogs, cutoff);
+    return hierarchyForecastTasks(truncate(hierarchy, start, end), config.horizon, config.interval, config.confidenceLevel ?? 95, method, options, { ...inputs, drivers, analogs }, true)
+      .map(task => ({ ...task, key: `${end}|${task.key}` }));
+  });
+
+/**
+ * Rolling-origin accuracy per hierarchy level, before and after reconciliation,
+ * from the runs of `hierarchyBacktestTasks`. Errors are pooled over every node
+ * and origin of a level (WAPE). Each node's base forecasts are kept per origin as well.
+ */
+export const scoreHierarchyBacktest = (
+  hierarchy: Hierarchy,
+  reconciliation: ReconciliationMethod,
+  config: BacktestConfig,
+  runs: Map<string, ForecastRun>
+): HierarchyBacktest => {
+  const length = hierarchy.nodes[0]?.series.length ?? 0;
+  const pooled = Object.fromEntries(HIERARCHY_LEVELS.map(l => [l, { actual: [] as number[], base: [] as number[], reconciled: [] as number[] }]));
+  const errors = new Map<string, OriginErrors>(hierarchy.nodes.map(n => [n.id, { actual: [], forecast: [] }]));
+
+  getOriginWindows(length, config).forEach(({ start, end }) => {
+    const train = truncate(hierarchy, start, end);
+    const originRuns = new Map(hierarchy.nodes.flatMap(n => {
+      const run = runs.get(`${end}|${n.id}`);
+      return run ? [[n.id, run] as const] : [];
+    }));
+    const reconciled = reconcileForecasts(train, originRuns, reconciliation);
+    hierarchy.nodes.forEach(n => {
+      const actual = n.series.slice(end, end + config.horizon).map(d => d.quantity);
+      const base = (originRuns.get(n.id)?.points ?? []).filter(p => p.isForecast).map(p => p.forecast).slice(0, actual.length);
+      const bucket = pooled[n.level];
+      bucket.actual.push(...actual);
+      bucket.base.push(...base);
+      errors.get(n.id)!.actual.push(actual);
+      errors.get(n.id)!.forecast.push(base);
+      bucket.reconciled.push(...(reconciled.get(n.id) ?? []).filter(p => p.isForecast).map(p => p.forecast).slice(0, actual.length));
+    });
+  });
+
+  const levels = HIERARCHY_LEVELS.map(level => {
+    const { actual, base, reconciled } = pooled[level];
+    const baseMetrics = calculateMetrics(actual, base, 1, 1);
+    const reconciledMetrics = calculateMetrics(actual, reconciled, 1, 1);
+    return {
+      level,
+      nodes: hierarchy.nodes.filter(n => n.level === level).length,
+      baseWape: baseMetrics.wape,
+      reconciledWape: reconciledMetrics.wape,
+      accuracy: reconciledMetrics.accuracy
+    };
+  });
+  return { levels, errors };
+};
+
+export const backtestHierarchy = (
+  hierarchy: Hierarchy,
+  method: ForecastMethodology,
+  reconciliation: ReconciliationMethod,
+  config: BacktestConfig & { interval: TimeInterval },
+  options: ForecastOptions = {},
+  inputs: NodeInputs = {}
+): HierarchyBacktest => {
+  const tasks = hierarchyBacktestTasks(hierarchy, method, config, options, inputs);
+  return scoreHierarchyBacktest(hierarchy, reconciliation, config, new Map(tasks.map(t => [t.key, runForecastTask(t)])));
+};
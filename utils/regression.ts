@@ -0,0 +1,26 @@
+import { Matrix, transpose, matMul, matVec, invert } from './linalg';
+
+/**
+ * Ordinary least squares with classical standard errors.
+ */
+
+export interface OlsResult {
+  coefficients: number[];
+  stdErrors: number[];
+  fitted: number[];
+  residuals: number[];
+  sigma2: number;
+}
+
+export const fitOls = (y: number[], X: Matrix): OlsResult => {
+  const n = y.length;
+  const k = X[0]?.length ?? 0;
+  const Xt = transpose(X);
+  const XtXInv = invert(matMul(Xt, X));
+  const coefficients = matVec(XtXInv, matVec(Xt, y));
+  const fitted = matVec(X, coefficients);
+  const residuals = y.map((v, i) => v - fitted[i]);
+  const sigma2 = residuals.reduce((s, r) => s + r * r, 0) / Math.max(1, n - k);
+  const stdErrors = XtXInv.map((row, i) => Math.sqrt(Math.max(0, row[i] * sigma2)));
+  return { coefficients, stdErrors, fitted, residuals, sigma2 };
+};
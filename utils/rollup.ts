@@ -0,0 +1,58 @@
+import { ForecastPoint } from '../types';
+import { sumDecompositions } from './decomposition';
+
+/**
+ * Summary view over per-SKU results: supply chain and financial figures are
+ * computed per SKU and summed here.
+ */
+
+// Fields that add up across SKUs as they are
+const ADDITIVE_FIELDS = [
+  'historical', 'forecast', 'scenarioForecast', 'safetyStock', 'reorderPoint',
+  'projectedInventory', 'projectedRevenue', 'projectedMargin', 'inventoryValue'
+] as const;
+
+/**
+ * Combines an offset from the point forecast across SKUs assuming
+ * independent errors, so the rolled-up band is narrower than the sum of bands.
+ */
+const combineOffsets = (center: number, offsets: number[]) => {
+  const up = Math.sqrt(offsets.reduce((s, d) => s + (d > 0 ? d * d : 0), 0));
+  const down = Math.sqrt(offsets.reduce((s, d) => s + (d < 0 ? d * d : 0), 0));
+  return Math.max(0, Math.round(center + up - down));
+};
+
+/**
+ * Sums per-SKU points date by date. Bounds and quantiles are rebuilt around
+ * the summed forecast from each SKU's distance to its own forecast.
+ */
+export const rollUpPoints = (perSku: ForecastPoint[][], sku: string = 'ALL'): ForecastPoint[] => {
+  const byDate = new Map<string, ForecastPoint[]>();
+  perSku.forEach(points => points.forEach(p => byDate.set(p.date, [...(byDate.get(p.date) || []), p])));
+
+  return Array.from(byDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, points]) => {
+      const rolled: ForecastPoint = { date, sku, forecast: 0, isForecast: points.some(p => p.isForecast), model: points[0].model };
+      ADDITIVE_FIELDS.forEach(field => {
+        const values = points.map(p => p[field]).filter((v): v is number => v !== undefined);
+        if (values.length > 0) rolled[field] = values.reduce((a, b) => a + b, 0);
+      });
+      if (rolled.isForecast) {
+        const center = rolled.forecast;
+        if (points.every(p => p.decomposition)) rolled.decomposition = sumDecompositions(points.map(p => p.decomposition!));
+        if (points.every(p => p.layers)) {
+          rolled.layers = Object.fromEntries(Object.keys(points[0].layers!).map(k => [k, points.reduce((s, p) => s + p.layers![k as keyof typeof p.layers], 0)])) as ForecastPoint['layers'];
+        }
+        if (points.every(p => p.lowerBound !== undefined && p.upperBound !== undefined)) {
+          rolled.lowerBound = combineOffsets(center, points.map(p => p.lowerBound! - p.forecast));
+          rolled.upperBound = combineOffsets(center, points.map(p => p.upperBound! - p.forecast));
+        }
+        const keys = Object.keys(points[0].quantiles || {});
+        if (keys.length > 0 && points.every(p => p.quantiles)) {
+          rolled.quantiles = Object.fromEntries(keys.map(k => [k, combineOffsets(center, points.map(p => (p.quantiles![k] ?? p.forecast) - p.forecast))]));
+        }
+      }
+      return rolled;
+    });
+};
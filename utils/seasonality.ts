@@ -0,0 +1,124 @@
+import { TimeInterval } from '../types';
+
+/**
+ * Seasonal period detection. Candidate cycles for the bucket size are kept
+ * when the autocorrelation of the detrended series peaks at that lag; the
+ * candidate with the strongest stable seasonal profile wins, and series
+ * whose best profile is weak are treated as non-seasonal (period 1).
+ */
+
+export interface SeasonalCandidate {
+  period: number;
+  acf: number;
+  strength: number;
+}
+
+export interface SeasonalityProfile {
+  /** Detected cycle length in periods; 1 when the series is not seasonal. */
+  period: number;
+  /** Seasonal strength of the detected period (0 = none, 1 = pure seasonality). */
+  strength: number;
+  candidates: SeasonalCandidate[];
+}
+
+/** Cycle lengths worth testing for each bucket size: quarter, half-year and year, or week. */
+export const CANDIDATE_PERIODS: Record<TimeInterval, number[]> = {
+  [TimeInterval.MONTHLY]: [3, 4, 6, 12],
+  [TimeInterval.WEEKLY]: [4, 13, 26, 52],
+  [TimeInterval.DAILY]: [7]
+};
+
+/** Minimum seasonal strength for a series to be modelled as seasonal. */
+export const SEASONAL_STRENGTH_THRESHOLD = 0.4;
+
+/** Strength a divisor of the strongest period may give up and still be chosen as the fundamental cycle. */
+const NESTED_TOLERANCE = 0.1;
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / (values.length || 1);
+
+/**
+ * Classical decomposition with a centred moving average: the seasonal profile
+ * (indexed by `t % s`, centred on zero), the detrended values it was averaged
+ * from, and the last trend value the moving average reaches.
+ */
+export const classicalDecomposition = (values: number[], s: number) => {
+  const n = values.length;
+  const half = Math.floor(s / 2);
+  const detrended: number[] = [];
+  const positions: number[] = [];
+  let lastTrend = mean(values);
+  for (let t = half; t < n - half; t++) {
+    let trend: number;
+    if (s % 2 === 0) {
+      let sum = 0.5 * (values[t - half] + values[t + half]);
+      for (let k = t - half + 1; k < t + half; k++) sum += values[k];
+      trend = sum / s;
+    } else {
+      trend = mean(values.slice(t - half, t + half + 1));
+    }
+    detrended.push(values[t] - trend);
+    positions.push(t % s);
+    lastTrend = trend;
+  }
+  const raw = new Array(s).fill(0).map((_, k) => mean(detrended.filter((_, i) => positions[i] === k)));
+  const offset = mean(raw);
+  return { profile: raw.map(v => v - offset), detrended, positions, lastTrend };
+};
+
+/**
+ * Share of detrended variance explained by a stable seasonal profile (0 = none, 1 = pure seasonality).
+ */
+export const seasonalStrength = (values: number[], s: number) => {
+  if (s < 2 || values.length < 2 * s) return 0;
+  const { profile, detrended, positions } = classicalDecomposition(values, s);
+  const remainder = detrended.map((v, i) => v - profile[positions[i]]);
+  const variance = (x: number[]) => { const m = mean(x); return mean(x.map(v => (v - m) ** 2)); };
+  const total = variance(detrended);
+  return total > 0 ? Math.max(0, 1 - variance(remainder) / total) : 0;
+};
+
+/** Sample autocorrelation for lags 0..maxLag. */
+export const autocorrelation = (values: number[], maxLag: number): number[] => {
+  const m = mean(values);
+  const centred = values.map(v => v - m);
+  const denom = centred.reduce((s, v) => s + v * v, 0);
+  return Array.from({ length: maxLag + 1 }, (_, k) => {
+    if (denom === 0) return 0;
+    let sum = 0;
+    for (let t = k; t < centred.length; t++) sum += centred[t] * centred[t - k];
+    return sum / denom;
+  });
+};
+
+/** Residuals from a least-squares line, so a trend does not masquerade as autocorrelation. */
+const detrend = (values: number[]) => {
+  const n = values.length;
+  const tMean = (n - 1) / 2;
+  const yMean = mean(values);
+  let sxy = 0, sxx = 0;
+  values.forEach((v, t) => { sxy += (t - tMean) * (v - yMean); sxx += (t - tMean) ** 2; });
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  return values.map((v, t) => v - (yMean + slope * (t - tMean)));
+};
+
+export const detectSeasonality = (values: number[], interval: TimeInterval): SeasonalityProfile => {
+  const n = values.length;
+  const testable = CANDIDATE_PERIODS[interval].filter(p => n >= 2 * p);
+  if (testable.length === 0) return { period: 1, strength: 0, candidates: [] };
+
+  const acf = autocorrelation(detrend(values), Math.min(n - 1, Math.max(...testable) + 1));
+  // Approximate 95% band for white noise
+  const band = 1.96 / Math.sqrt(n);
+  const candidates = testable.map(period => ({ period, acf: acf[period], strength: seasonalStrength(values, period) }));
+  const peaks = candidates.filter(c => c.acf > band && c.acf >= (acf[c.period - 1] ?? -1) && c.acf >= (acf[c.period + 1] ?? -1));
+
+  // Among ACF peaks the strongest profile wins. A multiple of the true cycle always fits at least
+  // as well, so a shorter peak that divides it and explains nearly as much is preferred.
+  const strongest = peaks.reduce<SeasonalCandidate | null>((b, c) => (!b || c.strength > b.strength ? c : b), null);
+  const best = strongest && peaks.find(c => strongest.period % c.period === 0 && c.strength >= strongest.strength - NESTED_TOLERANCE)!;
+  if (!best || best.strength < SEASONAL_STRENGTH_THRESHOLD) {
+    return { period: 1, strength: best?.strength ?? Math.max(0, ...candidates.map(c => c.strength)), candidates };
+  }
+  return { period: best.period, strength: best.strength, candidates };
+};
+
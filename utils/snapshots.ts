@@ -0,0 +1,220 @@
+import { DataPoint, ForecastMethodology, ForecastPoint, ForecastSnapshot, SnapshotPoint, TimeInterval } from '../types';
+import { bucketStart } from './calendar';
+
+/**
+ * Forecast versioning. Every committed run is kept as a snapshot of its
+ * settings and forecast. Once the forecast periods have actuals, snapshots are
+ * scored by lag (periods between the forecast origin and the target period)
+ * and consecutive versions are compared for stability.
+ */
+
+export const SNAPSHOT_LAGS = [1, 3, 6];
+
+/** Oldest versions are dropped beyond this so browser storage stays small. */
+export const MAX_SNAPSHOTS = 36;
+
+const STORAGE_KEY = 'forecast-snapshots';
+
+export const loadSnapshots = (): ForecastSnapshot[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error(e);
+    return [];
+  }
+};
+
+export const saveSnapshots = (snapshots: ForecastSnapshot[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshots));
+  } catch (e) {
+    console.error(e);
+  }
+};
+
+const toSnapshotPoints = (points: ForecastPoint[]): SnapshotPoint[] =>
+  points.filter(p => p.isForecast).map(p => ({ date: p.date, forecast: p.forecast, lowerBound: p.lowerBound, upperBound: p.upperBound }));
+
+/** Appends the next version, dropping the oldest beyond `MAX_SNAPSHOTS`. */
+export const addSnapshot = (
+  snapshots: ForecastSnapshot[],
+  settings: ForecastSnapshot['settings'],
+  methodology: ForecastMethodology,
+  label: string | undefined,
+  total: ForecastPoint[],
+  skus: { sku: string; points: ForecastPoint[] }[]
+): ForecastSnapshot[] => {
+  const history = total.filter(p => !p.isForecast);
+  if (history.length === 0 || history.length === total.length) return snapshots;
+  const version = snapshots.reduce((max, s) => Math.max(max, s.version), 0) + 1;
+  const snapshot: ForecastSnapshot = {
+    id: `v${version}-${Date.now()}`,
+    version,
+    createdAt: new Date().toISOString(),
+    origin: history[history.length - 1].date,
+    methodology,
+    label,
+    settings,
+    skus: skus.map(s => s.sku),
+    series: { ALL: toSnapshotPoints(total), ...Object.fromEntries(skus.map(s => [s.sku, toSnapshotPoints(s.points)])) }
+  };
+  return [...snapshots, snapshot].slice(-MAX_SNAPSHOTS);
+};
+
+/** Observed demand per SKU and bucket, up to the latest bucket with sales. */
+export interface ActualsIndex {
+  bySku: Map<string, Map<string, number>>;
+  lastDate: string;
+}
+
+export const indexActuals = (data: DataPoint[], interval: TimeInterval): ActualsIndex => {
+  const bySku = new Map<string, Map<string, number>>();
+  let lastDate = '';
+  data.forEach(d => {
+    const date = bucketStart(d.date, interval);
+    const totals = bySku.get(d.sku) ?? new Map<string, number>();
+    totals.set(date, (totals.get(date) || 0) + d.quantity);
+    bySku.set(d.sku, totals);
+    if (date > lastDate) lastDate = date;
+  });
+  return { bySku, lastDate };
+};
+
+/** Actual for one snapshot series; undefined until the period has been observed. */
+const actualFor = (index: ActualsIndex, snapshot: ForecastSnapshot, key: string, date: string) => {
+  if (date > index.lastDate) return undefined;
+  const skus = key === 'ALL' ? snapshot.skus : [key];
+  return skus.reduce((s, sku) => s + (index.bySku.get(sku)?.get(date) ?? 0), 0);
+};
+
+export interface WaterfallCell {
+  forecast: number;
+  version: number;
+  /** (forecast − actual) / actual in %; undefined when the actual is zero. */
+  errorPct?: number;
+}
+
+export interface WaterfallRow {
+  date: string;
+  actual: number;
+  lags: Record<number, WaterfallCell | undefined>;
+}
+
+export interface LagAccuracy {
+  lag: number;
+  count: number;
+  /** 100 − WAPE over the scored periods. */
+  accuracy: number;
+  bias: number;
+}
+
+/**
+ * Forecast accuracy waterfall: for every observed target period, the forecast
+ * each lag made for it. When several versions share an origin the latest wins.
+ */
+export const accuracyWaterfall = (
+  snapshots: ForecastSnapshot[],
+  actuals: ActualsIndex,
+  key: string,
+  lags: number[] = SNAPSHOT_LAGS
+): { rows: WaterfallRow[]; summary: LagAccuracy[] } => {
+  const rows = new Map<string, WaterfallRow>();
+  [...snapshots].sort((a, b) => a.version - b.version).forEach(snapshot => {
+    const series = snapshot.series[key];
+    if (!series) return;
+    lags.forEach(lag => {
+      const point = series[lag - 1];
+      const actual = point && actualFor(actuals, snapshot, key, point.date);
+      if (!point || actual === undefined) return;
+      const row = rows.get(point.date) ?? { date: point.date, actual, lags: {} };
+      row.lags[lag] = {
+        forecast: point.forecast,
+        version: snapshot.version,
+        errorPct: actual > 0 ? ((point.forecast - actual) / actual) * 100 : undefined
+      };
+      rows.set(point.date, row);
+    });
+  });
+
+  const sorted = Array.from(rows.values()).sort((a, b) => a.date.localeCompare(b.date));
+  const summary = lags.map(lag => {
+    const scored = sorted.filter(r => r.lags[lag]);
+    const totalActual = scored.reduce((s, r) => s + r.actual, 0);
+    const absError = scored.reduce((s, r) => s + Math.abs(r.lags[lag]!.forecast - r.actual), 0);
+    const error = scored.reduce((s, r) => s + r.lags[lag]!.forecast - r.actual, 0);
+    return {
+      lag,
+      count: scored.length,
+      accuracy: totalActual > 0 ? Math.max(0, 100 - (absError / totalActual) * 100) : 0,
+      bias: totalActual > 0 ? (error / totalActual) * 100 : 0
+    };
+  });
+  return { rows: sorted, summary };
+};
+
+export interface SnapshotStability {
+  version: number;
+  previousVersion: number;
+  /** Target periods both versions forecast. */
+  overlap: number;
+  /** Σ|new − old| / Σ old over the overlap, in %. */
+  change: number;
+  stability: number;
+}
+
+/**
+ * Forecast stability between consecutive versions of the same bucket size:
+ * how much the forecast for the periods both cover moved from one run to the next.
+ */
+export const forecastStability = (snapshots: ForecastSnapshot[], key: string): SnapshotStability[] => {
+  const sorted = [...snapshots].sort((a, b) => a.version - b.version);
+  return sorted.slice(1).flatMap((snapshot, i) => {
+    const previous = sorted[i];
+    if (previous.settings.filters.interval !== snapshot.settings.filters.interval) return [];
+    const before = new Map((previous.series[key] ?? []).map(p => [p.date, p.forecast]));
+    const overlap = (snapshot.series[key] ?? []).filter(p => before.has(p.date));
+    if (overlap.length === 0) return [];
+    const base = overlap.reduce((s, p) => s + Math.abs(before.get(p.date)!), 0);
+    const moved = overlap.reduce((s, p) => s + Math.abs(p.forecast - before.get(p.date)!), 0);
+    const change = base > 0 ? (moved / base) * 100 : 0;
+    return [{ version: snapshot.version, previousVersion: previous.version, overlap: overlap.length, change, stability: Math.max(0, 100 - change) }];
+  });
+};
+
+export interface SnapshotDiffRow {
+  date: string;
+  a?: SnapshotPoint;
+  b?: SnapshotPoint;
+  delta?: number;
+  deltaPct?: number;
+}
+
+/** Period-by-period difference of two snapshots, plus the settings that changed between them. */
+export const diffSnapshots = (a: ForecastSnapshot, b: ForecastSnapshot, key: string) => {
+  const aPoints = new Map((a.series[key] ?? []).map(p => [p.date, p]));
+  const bPoints = new Map((b.series[key] ?? []).map(p => [p.date, p]));
+  const dates = Array.from(new Set([...aPoints.keys(), ...bPoints.keys()])).sort();
+  const rows: SnapshotDiffRow[] = dates.map(date => {
+    const pa = aPoints.get(date);
+    const pb = bPoints.get(date);
+    const delta = pa && pb ? pb.forecast - pa.forecast : undefined;
+    return { date, a: pa, b: pb, delta, deltaPct: delta !== undefined && pa!.forecast !== 0 ? (delta / pa!.forecast) * 100 : undefined };
+  });
+
+  const show = (v: unknown) => (Array.isArray(v) ? v.join(', ') : String(v));
+  const settings = [
+    { field: 'methodology', a: a.methodology, b: b.methodology },
+    { field: 'horizon', a: a.settings.horizon, b: b.settings.horizon },
+    { field: 'industryPrompt', a: a.settings.industryPrompt, b: b.settings.industryPrompt },
+    ...Object.keys(a.settings.filters).map(field => ({
+      field,
+      a: a.settings.filters[field as keyof typeof a.settings.filters],
+      b: b.settings.filters[field as keyof typeof b.settings.filters]
+    }))
+  ]
+    .filter(s => JSON.stringify(s.a) !== JSON.stringify(s.b))
+    .map(s => ({ field: s.field, a: show(s.a), b: show(s.b) }));
+
+  return { rows, settings };
+};
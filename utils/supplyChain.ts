@@ -1,5 +1,7 @@
 
-import { ForecastPoint, Scenario, ProductAttribute } from '../types';
+import { ForecastPoint, Scenario, ProductAttribute, TimeInterval } from '../types';
+import { DAYS_PER_PERIOD } from './calendar';
+import { shiftDecomposition } from './decomposition';
 
 export const getZScore = (serviceLevel: number): number => {
   if (serviceLevel >= 0.999) return 3.09;
@@ -21,34 +23,37 @@ export const calculateSupplyChainMetrics = (
   scenarios: Scenario[] = [],
   showOffset: boolean = false,
   volatilityMultiplier: number = 0,
-  attributes: ProductAttribute[] = []
+  attributes: ProductAttribute[] = [],
+  interval: TimeInterval = TimeInterval.MONTHLY
 ): ForecastPoint[] => {
   const z = getZScore(serviceLevel);
   
   // Adjust lead time based on supplier volatility (resiliency stress test)
   const adjustedLeadTime = leadTimeDays * (1 + volatilityMultiplier);
-  const leadTimePeriods = adjustedLeadTime / 30;
+  const periodDays = DAYS_PER_PERIOD[interval];
+  const leadTimePeriods = adjustedLeadTime / periodDays;
   
   // Safety stock expands as volatility increases
   const safetyStock = Math.round(z * historicalStdDev * Math.sqrt(leadTimePeriods));
   
   const forecastOnly = forecast.filter(f => f.isForecast);
   const forecastAvg = forecastOnly.reduce((sum, f) => sum + f.forecast, 0) / (forecastOnly.length || 1);
-  const avgDailyDemand = forecastAvg / 30;
+  const avgDailyDemand = forecastAvg / periodDays;
   const reorderPoint = Math.round((avgDailyDemand * adjustedLeadTime) + safetyStock);
 
   // Financial Context
   const avgPrice = attributes.length > 0 ? attributes.reduce((s, a) => s + a.sellingPrice, 0) / attributes.length : 150;
   const avgCost = attributes.length > 0 ? attributes.reduce((s, a) => s + a.unitCost, 0) / attributes.length : 100;
 
+  // Scenario months count calendar months from the first forecast period, so weekly and daily periods take their month's scenario
+  const monthOf = (date: string) => Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7));
+  const firstMonth = forecastOnly.length > 0 ? monthOf(forecastOnly[0].date) : 0;
   let runningInventory = onHand;
-  let forecastCounter = 0;
 
   return forecast.map(p => {
     let scenarioVal = p.forecast;
     if (p.isForecast) {
-      forecastCounter++;
-      const activeScenario = scenarios.find(s => s.month === forecastCounter);
+      const activeScenario = scenarios.find(s => s.month === monthOf(p.date) - firstMonth + 1);
       if (activeScenario) scenarioVal = Math.round(scenarioVal * activeScenario.multiplier);
       runningInventory -= scenarioVal;
     }
@@ -63,7 +68,9 @@ export const calculateSupplyChainMetrics = (
     return {
       ...p,
       date: offsetDate,
+      period: offsetDate === p.date ? p.period : p.date,
       scenarioForecast: p.isForecast ? scenarioVal : undefined,
+      decomposition: shiftDecomposition(p.decomposition, 'scenario', scenarioVal - p.forecast),
       safetyStock,
       reorderPoint,
       projectedInventory: p.isForecast ? runningInventory : onHand,
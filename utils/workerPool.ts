@@ -0,0 +1,248 @@
+import { executeTask, PoolTask, TaskResult, WorkerRequest, WorkerResponse } from './workerProtocol';
+
+/**
+ * Worker pool for the forecasting pipeline. Tasks go to the workers in small
+ * chunks, so a superseded run is cancelled at the next chunk boundary, and
+ * results are cached by a hash of the series and of its settings, so a rerun
+ * only recomputes the series whose data or settings changed. Without Web
+ * Workers (Node, tests) the same tasks run on the calling thread.
+ *
+ * Task inputs must be treated as immutable once handed to the pool: objects
+ * are hashed once and the hash is reused for as long as the same object is
+ * passed again, so mutating one in place would serve stale results.
+ */
+
+export interface PoolProgress {
+  done: number;
+  total: number;
+  /** Tasks answered from the cache. */
+  cached: number;
+}
+
+export interface PoolRunOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: PoolProgress) => void;
+}
+
+export interface ForecastPool {
+  run: <T extends PoolTask>(tasks: T[], options?: PoolRunOptions) => Promise<Map<string, TaskResult<T>>>;
+  terminate: () => void;
+}
+
+const CHUNK_SIZE = 16;
+const MAX_WORKERS = 8;
+/**
+ * The cache keeps this many times the largest task list seen (roughly the
+ * hierarchy's nodes × backtest origins), so it holds the jobs of the last few
+ * runs and scales with the selection instead of a fixed entry count.
+ */
+const CACHED_RUNS = 3;
+const MIN_CACHE_ENTRIES = 1000;
+
+/** 64-bit string hash (cyrb53 mixing), as 16 hex digits. */
+export const hashString = (text: string) => {
+  let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+};
+
+// Inputs are immutable (see above), so an object's hash is computed once and reused by identity
+const fingerprints = new WeakMap<object, string>();
+const fingerprint = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return String(value);
+  let print = fingerprints.get(value);
+  if (print === undefined) {
+    print = hashString(JSON.stringify(value));
+    fingerprints.set(value, print);
+  }
+  return print;
+};
+
+/**
+ * Cache key of a task: the series hash and the settings hash. Options,
+ * backtest config and a hierarchy's runs are hashed field by field, so
+ * per-node copies that share most of their fields, and run maps that share
+ * most of their runs, stay cheap to hash.
+ */
+export const taskHash = (task: PoolTask) => {
+  const { key, ...settings } = task;
+  const series = 'series' in settings ? settings.series : [];
+  const fields = Object.entries(settings).flatMap(([name, value]) => {
+    if (name === 'series') return [];
+    return (name === 'options' || name === 'config' || name === 'runs') && value
+      ? Object.entries(value).map(([field, v]) => `${name}.${field}=${fingerprint(v)}`)
+      : [`${name}=${fingerprint(value)}`];
+  });
+  return `${hashString(series.map(d => `${d.date}:${d.quantity}`).join(','))}:${hashString(fields.sort().join('|'))}`;
+};
+
+export const isAbortError = (e: unknown) => e instanceof Error && e.name === 'AbortError';
+
+const abortError = () => Object.assign(new Error('Forecast run superseded'), { name: 'AbortError' });
+
+const defaultPoolSize = () =>
+  typeof navigator === 'undefined' ? 1 : Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+
+const defaultSpawn = () =>
+  typeof Worker === 'undefined' ? null : () => new Worker(new URL('./forecast.worker.ts', import.meta.url), { type: 'module' });
+
+interface Batch {
+  id: number;
+  pending: number;
+  results: Map<string, unknown>;
+  hashes: Map<string, string>;
+  progress: PoolProgress;
+  onProgress?: (progress: PoolProgress) => void;
+  resolve: (results: Map<string, unknown>) => void;
+  reject: (error: Error) => void;
+}
+
+interface Slot {
+  worker: Worker;
+  batch: number;
+  /** Results still owed for the chunk in flight; 0 when idle. */
+  remaining: number;
+}
+
+/** Workers are started on the first run, so creating a pool is free. */
+export const createForecastPool = (size: number = defaultPoolSize(), spawn: (() => Worker) | null = defaultSpawn()): ForecastPool => {
+  const cache = new Map<string, unknown>();
+  const batches = new Map<number, Batch>();
+  const queue: { batch: number; tasks: PoolTask[] }[] = [];
+  const slots: Slot[] = [];
+  let nextBatch = 1;
+  let capacity = MIN_CACHE_ENTRIES;
+
+  const remember = (hash: string, result: unknown) => {
+    cache.delete(hash);
+    while (cache.size >= capacity) cache.delete(cache.keys().next().value!);
+    cache.set(hash, result);
+  };
+
+  const fail = (batch: Batch, error: Error) => {
+    if (!batches.delete(batch.id)) return;
+    for (let i = queue.length - 1; i >= 0; i--) if (queue[i].batch === batch.id) queue.splice(i, 1);
+    batch.reject(error);
+  };
+
+  const complete = (batch: Batch, key: string, result: unknown) => {
+    if (!batches.has(batch.id)) return;
+    batch.results.set(key, result);
+    remember(batch.hashes.get(key)!, result);
+    batch.progress.done++;
+    batch.onProgress?.({ ...batch.progress });
+    if (--batch.pending === 0) {
+      batches.delete(batch.id);
+      batch.resolve(batch.results);
+    }
+  };
+
+  const dispatch = () => {
+    slots.forEach(slot => {
+      if (slot.remaining > 0 || queue.length === 0) return;
+      const chunk = queue.shift()!;
+      slot.batch = chunk.batch;
+      slot.remaining = chunk.tasks.length;
+      const request: WorkerRequest = { type: 'run', batch: chunk.batch, tasks: chunk.tasks };
+      slot.worker.postMessage(request);
+    });
+  };
+
+  const startWorker = (): Slot => {
+    const slot: Slot = { worker: spawn!(), batch: 0, remaining: 0 };
+    slot.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      slot.remaining--;
+      const batch = batches.get(message.batch);
+      if (batch) {
+        if (message.type === 'error') fail(batch, new Error(message.message));
+        else complete(batch, message.key, message.result);
+      }
+      if (slot.remaining === 0) dispatch();
+    };
+    // A worker that dies takes its chunk's batch with it and is replaced
+    slot.worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      const batch = batches.get(slot.batch);
+      if (batch) fail(batch, new Error(event.message || 'Forecast worker failed'));
+      slot.worker.terminate();
+      const index = slots.indexOf(slot);
+      if (index < 0) return;
+      slots.splice(index, 1, startWorker());
+      dispatch();
+    };
+    return slot;
+  };
+
+  // Same tasks on the calling thread, yielding between chunks so a cancel can get in
+  const runInline = async (batch: Batch, tasks: PoolTask[]) => {
+    for (let i = 0; i < tasks.length && batches.has(batch.id); i += CHUNK_SIZE) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      for (const task of tasks.slice(i, i + CHUNK_SIZE)) {
+        if (!batches.has(batch.id)) return;
+        try {
+          complete(batch, task.key, executeTask(task));
+        } catch (e) {
+          fail(batch, e instanceof Error ? e : new Error(String(e)));
+        }
+      }
+    }
+  };
+
+  const run = <T extends PoolTask>(tasks: T[], { signal, onProgress }: PoolRunOptions = {}) =>
+    new Promise<Map<string, TaskResult<T>>>((resolve, reject) => {
+      if (signal?.aborted) return reject(abortError());
+      capacity = Math.max(capacity, CACHED_RUNS * tasks.length);
+      const results = new Map<string, unknown>();
+      const hashes = new Map<string, string>();
+      const todo: T[] = [];
+      tasks.forEach(task => {
+        const hash = `${task.kind}:${taskHash(task)}`;
+        if (cache.has(hash)) {
+          const cached = cache.get(hash);
+          remember(hash, cached);
+          results.set(task.key, cached);
+        } else {
+          hashes.set(task.key, hash);
+          todo.push(task);
+        }
+      });
+      const progress = { done: results.size, total: tasks.length, cached: results.size };
+      onProgress?.({ ...progress });
+      if (todo.length === 0) return resolve(results as Map<string, TaskResult<T>>);
+
+      const batch: Batch = {
+        id: nextBatch++,
+        pending: todo.length,
+        results,
+        hashes,
+        progress,
+        onProgress,
+        resolve: r => resolve(r as Map<string, TaskResult<T>>),
+        reject
+      };
+      batches.set(batch.id, batch);
+      signal?.addEventListener('abort', () => fail(batch, abortError()), { once: true });
+
+      if (!spawn) {
+        runInline(batch, todo);
+        return;
+      }
+      while (slots.length < size) slots.push(startWorker());
+      for (let i = 0; i < todo.length; i += CHUNK_SIZE) queue.push({ batch: batch.id, tasks: todo.slice(i, i + CHUNK_SIZE) });
+      dispatch();
+    });
+
+  const terminate = () => {
+    slots.splice(0).forEach(slot => slot.worker.terminate());
+    Array.from(batches.values()).forEach(batch => fail(batch, abortError()));
+  };
+
+  return { run, terminate };
+};
@@ -0,0 +1,91 @@
+import { DataPoint, ForecastMethodology, ForecastOptions, ForecastPoint, ReconciliationMethod, TimeInterval } from '../types';
+import { calculateForecast, ForecastRun } from './forecasting';
+import { runRollingBacktest, BacktestConfig, BacktestResult } from './backtest';
+import { reconcileForecasts, scoreHierarchyBacktest, Hierarchy, HierarchyBacktest } from './reconcile';
+
+/**
+ * Messages between the forecast pool and its workers. A task is a pure
+ * function call on one series, or on a whole hierarchy's runs, so the same
+ * task gives the same numbers whether a worker or the calling thread runs it.
+ */
+
+export interface ForecastTask {
+  kind: 'forecast';
+  /** Caller's id for the result, e.g. a hierarchy node id. */
+  key: string;
+  series: DataPoint[];
+  horizon: number;
+  interval: TimeInterval;
+  confidenceLevel: number;
+  method: ForecastMethodology;
+  options?: ForecastOptions;
+  /** Return only the forecast points and the fitted values, which is all backtest scoring and reconciliation read. */
+  slim?: boolean;
+}
+
+export interface BacktestTask {
+  kind: 'backtest';
+  key: string;
+  series: DataPoint[];
+  methods: ForecastMethodology[];
+  config: BacktestConfig;
+}
+
+/** Reconciled points of every node from its base run, keyed by node id. */
+export interface ReconcileTask {
+  kind: 'reconcile';
+  key: string;
+  hierarchy: Hierarchy;
+  runs: Record<string, ForecastRun>;
+  method: ReconciliationMethod;
+}
+
+/** Per-level accuracy and per-node errors of a hierarchy backtest's origin runs. */
+export interface ScoreTask {
+  kind: 'score';
+  key: string;
+  hierarchy: Hierarchy;
+  method: ReconciliationMethod;
+  config: BacktestConfig;
+  runs: Record<string, ForecastRun>;
+}
+
+export type PoolTask = ForecastTask | BacktestTask | ReconcileTask | ScoreTask;
+
+export type TaskResult<T extends PoolTask> =
+  T extends ForecastTask ? ForecastRun
+  : T extends BacktestTask ? BacktestResult | null
+  : T extends ReconcileTask ? Map<string, ForecastPoint[]>
+  : HierarchyBacktest;
+
+export interface WorkerRequest {
+  type: 'run';
+  batch: number;
+  tasks: PoolTask[];
+}
+
+export type WorkerResponse =
+  | { type: 'result'; batch: number; key: string; result: TaskResult<PoolTask> }
+  | { type: 'error'; batch: number; key: string; message: string };
+
+const slimRun = (run: ForecastRun): ForecastRun => ({
+  points: run.points.filter(p => p.isForecast).map(({ date, forecast, isForecast }) => ({ date, forecast, isForecast })),
+  fit: run.fit && { forecast: run.fit.forecast, fitted: run.fit.fitted }
+});
+
+export const runForecastTask = (task: ForecastTask): ForecastRun => {
+  const run = calculateForecast(task.series, task.horizon, task.interval, task.confidenceLevel, task.method, task.options);
+  return task.slim ? slimRun(run) : run;
+};
+
+const executeAny = (task: PoolTask) => {
+  const runs = (record: Record<string, ForecastRun>) => new Map(Object.entries(record));
+  switch (task.kind) {
+    case 'forecast': return runForecastTask(task);
+    case 'backtest': return runRollingBacktest(task.series, task.methods, task.config);
+    case 'reconcile': return reconcileForecasts(task.hierarchy, runs(task.runs), task.method);
+    case 'score': return scoreHierarchyBacktest(task.hierarchy, task.method, task.config, runs(task.runs));
+  }
+};
+
+export const executeTask = <T extends PoolTask>(task: T): TaskResult<T> => executeAny(task) as TaskResult<T>;